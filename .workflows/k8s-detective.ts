@@ -478,17 +478,7 @@ NOTES: Requires kubectl in PATH. Large clusters auto-TOON-encode. Run from basti
 
         const logProgress = async (message: string) => {
             console.error(`[k8s-detective] [${currentStep}/${totalSteps}] ${message}`);
-            if (context.servers['sequential-thinking']) {
-                await safeExecute(
-                    () => context.servers['sequential-thinking'].sequentialthinking({
-                        thought: message,
-                        thoughtNumber: currentStep,
-                        totalThoughts: totalSteps,
-                        nextThoughtNeeded: currentStep < totalSteps
-                    }),
-                    'thinking'
-                );
-            }
+            context.progress(currentStep, totalSteps, message);
             currentStep++;
         };
 
@@ -424,17 +424,7 @@ NOTES: Supports large files via streaming. Auto-detects log levels and categorie
 
         const logProgress = async (message: string) => {
             console.error(`[post-mortem] [${currentStep}/${totalSteps}] ${message}`);
-            if (context.servers['sequential-thinking']) {
-                await safeExecute(
-                    () => context.servers['sequential-thinking'].sequentialthinking({
-                        thought: message,
-                        thoughtNumber: currentStep,
-                        totalThoughts: totalSteps,
-                        nextThoughtNeeded: currentStep < totalSteps
-                    }),
-                    'thinking'
-                );
-            }
+            context.progress(currentStep, totalSteps, message);
             currentStep++;
         };
 
@@ -379,18 +379,7 @@ NOTES: Gracefully degrades if MCPs unavailable. Large outputs auto-TOON-encode.`
 
         const logProgress = async (message: string) => {
             console.error(`[research] [${currentStep}/${totalSteps}] ${message}`);
-            if (context.servers['sequential-thinking']) {
-                try {
-                    await context.servers['sequential-thinking'].sequentialthinking({
-                        thought: message,
-                        thoughtNumber: currentStep,
-                        totalThoughts: totalSteps,
-                        nextThoughtNeeded: currentStep < totalSteps
-                    });
-                } catch {
-                    // Silent fail for logging
-                }
-            }
+            context.progress(currentStep, totalSteps, message);
             currentStep++;
         };
 
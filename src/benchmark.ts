@@ -1,4 +1,5 @@
 import { TOONEncoder as TOON } from './toon-encoder.js';
+import { compareTokens, loadTokenizer } from './components/tokenizer.js';
 
 // Scenario 2: Kubernetes Cluster Audit (Simulated)
 // We create a large, repetitive JSON structure similar to a K8s pod list
@@ -87,6 +88,11 @@ async function runBenchmark() {
     const savingsMinified = ((minifiedSize - compressedSize) / minifiedSize) * 100;
     const savingsPretty = ((prettySize - compressedSize) / prettySize) * 100;
 
+    const tokenizer = await loadTokenizer(process.env.TOKENIZER);
+    const approx = tokenizer.exact ? "" : "~";
+    const minifiedTokens = compareTokens(tokenizer, minifiedJson, toonString);
+    const prettyTokens = compareTokens(tokenizer, prettyJson, toonString);
+
     console.log(`Scenario: Kubernetes Cluster Audit (50 Pods)`);
     console.log(`------------------------------------------`);
     console.log(`Original JSON (Minified): ${minifiedSize} chars`);
@@ -94,6 +100,10 @@ async function runBenchmark() {
     console.log(`TOON Encoded Size:        ${compressedSize} chars`);
     console.log(`Savings (vs Minified):    ${savingsMinified.toFixed(2)}%`);
     console.log(`Savings (vs Pretty):      ${savingsPretty.toFixed(2)}%`);
+    console.log(`Tokenizer:                ${tokenizer.name}`);
+    console.log(`Tokens (Minified/Pretty): ${approx}${minifiedTokens.json} / ${approx}${prettyTokens.json}`);
+    console.log(`Tokens (TOON):            ${approx}${minifiedTokens.toon}`);
+    console.log(`Token Savings:            ${minifiedTokens.savings.toFixed(2)}% vs Minified, ${prettyTokens.savings.toFixed(2)}% vs Pretty`);
     console.log(`Time:                     ${(end - start).toFixed(2)}ms`);
 
     if (savingsMinified > 90 || savingsPretty > 90) {
@@ -3,12 +3,15 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import * as path from "path";
 import * as os from "os";
+import * as http from "http";
 import { PathNormalizer } from "./components/path-normalizer.js";
 import { ConfigManager } from "./components/config-manager.js";
 import { MCPServerManager } from "./components/mcp-server-manager.js";
 import { CodeExecutor } from "./components/code-executor.js";
 import { ToolRegistry } from "./components/tool-registry.js";
 import { WorkflowManager } from "./components/workflow-manager.js";
+import { installConsoleRedaction } from "./components/secret-redactor.js";
+import { startMetricsServer } from "./components/metrics.js";
 
 class CodeModeServer {
   private static readonly ORCHESTRATOR_VENDOR = "code-mode-toon";
@@ -21,6 +24,7 @@ class CodeModeServer {
   private codeExecutor: CodeExecutor;
   private workflowManager: WorkflowManager;
   private toolRegistry: ToolRegistry;
+  private metricsServer?: http.Server;
 
   private constructor(configPath: string) {
     this.server = new Server(
@@ -30,7 +34,7 @@ class CodeModeServer {
         vendor: CodeModeServer.ORCHESTRATOR_VENDOR,
         signature: CodeModeServer.ORCHESTRATOR_SIGNATURE
       },
-      { capabilities: { tools: {} } }
+      { capabilities: { tools: { listChanged: true }, resources: { listChanged: true }, prompts: { listChanged: true } } }
     );
 
     this.configManager = new ConfigManager(configPath);
@@ -55,10 +59,19 @@ class CodeModeServer {
     // But PathNormalizer takes projectRoot in constructor. Let's just re-create components that depend on it.
 
     instance.serverManager = new MCPServerManager(instance.configManager, instance.pathNormalizer);
-    instance.codeExecutor = new CodeExecutor(instance.serverManager, instance.pathNormalizer);
+    instance.codeExecutor = new CodeExecutor(instance.serverManager, instance.pathNormalizer, instance.configManager.getTokenizer());
     instance.workflowManager = new WorkflowManager(instance.configManager, instance.serverManager, instance.pathNormalizer);
     instance.toolRegistry = new ToolRegistry(instance.server, instance.configManager, instance.serverManager, instance.codeExecutor, instance.workflowManager, instance.pathNormalizer);
 
+    installConsoleRedaction(instance.serverManager.redactor);
+    const metricsConfig = instance.configManager.getMetrics();
+    if (metricsConfig?.port !== undefined) {
+      instance.metricsServer = await startMetricsServer(instance.serverManager.metrics.registry, metricsConfig.port, metricsConfig.host)
+        .catch((err) => {
+          console.error(`[CodeMode+TOON] Could not start metrics endpoint: ${err?.message || err}`);
+          return undefined;
+        });
+    }
     await instance.workflowManager.loadWorkflows();
     instance.toolRegistry.setupHandlers();
     instance.setupProcessHandlers();
@@ -67,6 +80,8 @@ class CodeModeServer {
 
   private setupProcessHandlers() {
     const cleanup = async () => {
+      this.metricsServer?.close();
+      await this.codeExecutor.shutdown();
       await this.serverManager.shutdown();
       process.exit(0);
     };
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "fs/promises";
+import * as path from "path";
+import { LIMITS } from "../constants.js";
+import { matchesGlob } from "../glob-matcher.js";
+import { AuditConfig } from "./config-manager.js";
+import { SecretRedactor } from "./secret-redactor.js";
+
+export type AuditOutcome = "ok" | "error" | "denied" | "cancelled";
+
+export interface AuditEntry {
+    timestamp: string;          // ISO time the call started
+    origin: string;             // top-level tool: "execute_code", "execute_workflow:<name>" or "direct"
+    sessionId?: string;         // execute_code session, when one was used
+    server: string;
+    tool: string;
+    argsHash: string;           // sha256 of the normalized arguments (first 16 hex chars)
+    args?: any;                 // only with "logArguments": true
+    durationMs: number;
+    outcome: AuditOutcome;
+    error?: string;
+    jsonBytes?: number;         // result size as JSON
+    toonBytes?: number;         // result size once TOON-encoded
+}
+
+export interface AuditQuery {
+    server?: string;            // glob
+    tool?: string;              // glob
+    origin?: string;            // glob
+    outcome?: AuditOutcome;
+    since?: string;             // ISO timestamp, inclusive
+    until?: string;             // ISO timestamp, exclusive
+    limit?: number;             // newest entries are kept; defaults to 100
+}
+
+// Sorted keys so equal arguments hash equally regardless of property order
+export function canonicalJson(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value).sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+            .join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+function toIsoBound(value: string | undefined, name: string): string | undefined {
+    if (value === undefined || value === "") return undefined;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) throw new Error(`Invalid "${name}" timestamp: ${value}`);
+    return new Date(time).toISOString();
+}
+
+export function hashArguments(args: any): string {
+    return createHash("sha256").update(canonicalJson(args ?? {})).digest("hex").slice(0, 16);
+}
+
+/**
+ * Append-only JSONL record of downstream tool calls. The active file is
+ * rotated to <file>.1, <file>.2, ... once it reaches maxBytes; the oldest
+ * rotation is dropped.
+ */
+export class AuditLog {
+    private readonly maxBytes: number;
+    private readonly maxFiles: number;
+    private size?: number;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string, config: AuditConfig = {}, private readonly redactor?: SecretRedactor) {
+        this.maxBytes = config.maxBytes ?? LIMITS.AUDIT_LOG_MAX_BYTES;
+        this.maxFiles = Math.max(1, config.maxFiles ?? LIMITS.AUDIT_LOG_FILES);
+    }
+
+    get path(): string {
+        return this.filePath;
+    }
+
+    record(entry: AuditEntry): void {
+        const line = JSON.stringify(this.redactor ? this.redactor.redactValue(entry) : entry) + "\n";
+        this.writes = this.writes
+            .then(() => this.append(line))
+            .catch((err: any) => {
+                console.error(`[CodeMode+TOON] Failed to write audit log ${this.filePath}: ${err?.message || err}`);
+            });
+    }
+
+    /** Resolves once every recorded entry is on disk. */
+    flush(): Promise<void> {
+        return this.writes;
+    }
+
+    async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+        await this.flush();
+        const limit = filter.limit ?? 100;
+        const bounds = { since: toIsoBound(filter.since, "since"), until: toIsoBound(filter.until, "until") };
+        const matches: AuditEntry[] = [];
+
+        // Oldest rotation first so results stay in chronological order
+        for (let index = this.maxFiles; index >= 0; index--) {
+            const file = index === 0 ? this.filePath : `${this.filePath}.${index}`;
+            let text: string;
+            try {
+                text = await readFile(file, "utf-8");
+            } catch (err: any) {
+                if (err?.code === "ENOENT") continue;
+                throw err;
+            }
+            for (const line of text.split("\n")) {
+                if (!line.trim()) continue;
+                let entry: AuditEntry;
+                try {
+                    entry = JSON.parse(line);
+                } catch {
+                    continue;
+                }
+                if (this.matches(entry, filter, bounds)) matches.push(entry);
+            }
+        }
+        return limit > 0 ? matches.slice(-limit) : matches;
+    }
+
+    private matches(entry: AuditEntry, filter: AuditQuery, bounds: { since?: string; until?: string }): boolean {
+        if (filter.server && !matchesGlob(entry.server, filter.server)) return false;
+        if (filter.tool && !matchesGlob(entry.tool, filter.tool)) return false;
+        if (filter.origin && !matchesGlob(entry.origin, filter.origin)) return false;
+        if (filter.outcome && entry.outcome !== filter.outcome) return false;
+        if (bounds.since && entry.timestamp < bounds.since) return false;
+        if (bounds.until && entry.timestamp >= bounds.until) return false;
+        return true;
+    }
+
+    private async append(line: string): Promise<void> {
+        if (this.size === undefined) {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            this.size = await stat(this.filePath).then((s) => s.size, () => 0);
+        }
+        const bytes = Buffer.byteLength(line);
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+            await this.rotate();
+        }
+        await appendFile(this.filePath, line, "utf-8");
+        this.size += bytes;
+    }
+
+    private async rotate(): Promise<void> {
+        await rm(`${this.filePath}.${this.maxFiles}`, { force: true });
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            await rename(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`).catch(() => { });
+        }
+        await rename(this.filePath, `${this.filePath}.1`);
+        this.size = 0;
+    }
+}
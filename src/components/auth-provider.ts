@@ -0,0 +1,96 @@
+import { exec } from "child_process";
+import { AuthConfig } from "./config-manager.js";
+import { HeaderSource } from "./http-transport.js";
+
+const TOKEN_COMMAND_TIMEOUT_MS = 10_000;
+
+/**
+ * Builds request headers for an HTTP MCP server from its static `headers`
+ * and optional `auth` token source. Tokens are cached until refresh().
+ */
+export class AuthProvider implements HeaderSource {
+    private cachedToken?: string;
+    private inFlight?: Promise<string>;
+    // Lowercased names, so a configured "Authorization" cannot be sent next to the auth header
+    private headers: Record<string, string>;
+
+    constructor(
+        private label: string,
+        headers: Record<string, string> = {},
+        private auth?: AuthConfig,
+        private onToken?: (token: string) => void   // sees every resolved token (secret redaction)
+    ) {
+        this.headers = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    }
+
+    async getHeaders(): Promise<Record<string, string>> {
+        const headers = { ...this.headers };
+        if (!this.auth) return headers;
+
+        const token = await this.getToken();
+        const scheme = this.auth.scheme ?? "Bearer";
+        headers[(this.auth.header || "authorization").toLowerCase()] = scheme ? `${scheme} ${token}` : token;
+        return headers;
+    }
+
+    /**
+     * Drops the cached token and resolves a fresh one. Returns true when the
+     * token changed, i.e. when retrying the rejected request could help.
+     */
+    async refresh(): Promise<boolean> {
+        if (!this.auth || this.auth.token !== undefined) return false;
+        const previous = this.cachedToken;
+        this.cachedToken = undefined;
+        const next = await this.getToken();
+        return next !== previous;
+    }
+
+    private async getToken(): Promise<string> {
+        if (this.cachedToken !== undefined) return this.cachedToken;
+        if (!this.inFlight) {
+            this.inFlight = this.resolveToken()
+                .then((token) => {
+                    this.cachedToken = token;
+                    this.onToken?.(token);
+                    return token;
+                })
+                .finally(() => {
+                    this.inFlight = undefined;
+                });
+        }
+        return this.inFlight;
+    }
+
+    private async resolveToken(): Promise<string> {
+        const auth = this.auth!;
+        if (auth.token !== undefined) {
+            return auth.token;
+        }
+        if (auth.tokenEnv) {
+            const value = process.env[auth.tokenEnv];
+            if (!value) throw new Error(`Environment variable ${auth.tokenEnv} for ${this.label} auth is not set`);
+            return value.trim();
+        }
+        if (auth.tokenCommand) {
+            return await this.runTokenCommand(auth.tokenCommand);
+        }
+        throw new Error(`Invalid auth config for ${this.label}: set token, tokenEnv or tokenCommand`);
+    }
+
+    private runTokenCommand(command: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            exec(command, { timeout: TOKEN_COMMAND_TIMEOUT_MS }, (err, stdout) => {
+                if (err) {
+                    reject(new Error(`Token command for ${this.label} failed: ${err.message}`));
+                    return;
+                }
+                const token = stdout.trim();
+                if (!token) {
+                    reject(new Error(`Token command for ${this.label} produced no output`));
+                    return;
+                }
+                resolve(token);
+            });
+        });
+    }
+}
@@ -0,0 +1,124 @@
+import { RateLimitConfig } from "./config-manager.js";
+import { cancellationReason, RequestCancelledError } from "./json-rpc-channel.js";
+
+export interface CallPermit {
+    waitedMs: number;       // time spent queued before the call could start
+    release(): void;
+}
+
+interface Waiter {
+    queuedAt: number;
+    grant: (permit: CallPermit) => void;
+}
+
+/**
+ * FIFO gate in front of one downstream server: at most maxConcurrency calls
+ * in flight, and calls start no faster than a token bucket allows (capacity
+ * `burst`, refilled with `requests` tokens every `perSeconds`).
+ */
+export class CallLimiter {
+    private active = 0;
+    private queue: Waiter[] = [];
+    private tokens: number;
+    private refilledAt: number;
+    private refillTimer?: NodeJS.Timeout;
+
+    constructor(
+        private readonly maxConcurrency?: number,
+        private readonly rateLimit?: RateLimitConfig,
+        private readonly now: () => number = Date.now
+    ) {
+        this.tokens = this.capacity;
+        this.refilledAt = this.now();
+    }
+
+    /** Calls waiting for a slot or a token. */
+    get pending(): number {
+        return this.queue.length;
+    }
+
+    /** Resolves once the call may start; rejects if the signal aborts first. */
+    acquire(signal?: AbortSignal, label = "Call"): Promise<CallPermit> {
+        if (signal?.aborted) {
+            return Promise.reject(new RequestCancelledError(`${label} cancelled before it was queued`));
+        }
+        this.refill();
+        if (!this.queue.length && this.canStart()) return Promise.resolve(this.start(0));
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                queuedAt: this.now(),
+                grant: (permit) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(permit);
+                }
+            };
+            const onAbort = () => {
+                const index = this.queue.indexOf(waiter);
+                if (index < 0) return;
+                this.queue.splice(index, 1);
+                const reason = cancellationReason(signal!);
+                reject(new RequestCancelledError(`${label} cancelled after ${this.now() - waiter.queuedAt}ms in the queue${reason ? `: ${reason}` : ""}`));
+                this.pump();
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.queue.push(waiter);
+            this.pump();
+        });
+    }
+
+    private get capacity(): number {
+        return this.rateLimit ? Math.max(1, this.rateLimit.burst ?? this.rateLimit.requests) : Infinity;
+    }
+
+    // Tokens per millisecond
+    private get refillRate(): number {
+        return this.rateLimit ? this.rateLimit.requests / ((this.rateLimit.perSeconds ?? 1) * 1000) : Infinity;
+    }
+
+    private refill(): void {
+        if (!this.rateLimit) return;
+        const now = this.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) * this.refillRate);
+        this.refilledAt = now;
+    }
+
+    private canStart(): boolean {
+        if (this.maxConcurrency !== undefined && this.active >= this.maxConcurrency) return false;
+        return !this.rateLimit || this.tokens >= 1;
+    }
+
+    private start(waitedMs: number): CallPermit {
+        if (this.rateLimit) this.tokens -= 1;
+        this.active++;
+        let released = false;
+        return {
+            waitedMs,
+            release: () => {
+                if (released) return;
+                released = true;
+                this.active--;
+                this.pump();
+            }
+        };
+    }
+
+    private pump(): void {
+        this.refill();
+        while (this.queue.length && this.canStart()) {
+            const waiter = this.queue.shift()!;
+            waiter.grant(this.start(this.now() - waiter.queuedAt));
+        }
+        if (this.queue.length && this.rateLimit && this.tokens < 1) this.scheduleRefill();
+    }
+
+    // Wakes the queue when the next token is due
+    private scheduleRefill(): void {
+        if (this.refillTimer) return;
+        const delay = Math.max(1, Math.ceil((1 - this.tokens) / this.refillRate));
+        this.refillTimer = setTimeout(() => {
+            this.refillTimer = undefined;
+            this.pump();
+        }, delay);
+        this.refillTimer.unref();
+    }
+}
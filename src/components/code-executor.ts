@@ -1,16 +1,64 @@
-import * as vm from "node:vm";
+import { Worker } from "node:worker_threads";
 import { TOONEncoder } from "../toon-encoder.js";
 import { TIMEOUTS, LIMITS } from "../constants.js";
 import { MCPServerManager } from "./mcp-server-manager.js";
 import { PathNormalizer } from "./path-normalizer.js";
+import { parseNamespacedUri } from "./resource-namespace.js";
+import { cancellationReason, RequestCancelledError } from "./json-rpc-channel.js";
+import { ProgressReporter } from "./progress-reporter.js";
+import { BridgeOperation, ParentMessage, WorkerMessage } from "./sandbox-protocol.js";
+import { WorkerPool } from "./worker-pool.js";
+import { ExecutionSessions, SessionInfo } from "./execution-sessions.js";
+import { locateInStack, TranspiledSubmission, TranspileError, transpileSubmission, typeCheckSubmission } from "./typescript-transpiler.js";
+import { generateSandboxDeclarations } from "./tool-typings.js";
+import { assertValidArguments } from "./schema-validator.js";
+import { compareTokens, DEFAULT_TOKENIZER, loadTokenizer } from "./tokenizer.js";
+import { Span } from "./tracing.js";
+import { PolicyDeniedError } from "./policy-engine.js";
+
+export interface ExecutionOptions {
+    signal?: AbortSignal;          // aborted when the client sends notifications/cancelled
+    progress?: ProgressReporter;   // honours the client's progressToken
+    sessionId?: string;            // keep globals alive across calls in this named session
+    typeCheck?: boolean;           // check against the loaded servers' tool types first (opt-in)
+    span?: Span;                   // parent of the spans for proxied calls and server loads
+}
+
+interface ExecutionContext {
+    toolRegistry: any;
+    signal?: AbortSignal;
+    progress?: ProgressReporter;
+    sessionId?: string;
+    span?: Span;
+    countOperation: () => void;
+    countCacheHit: () => void;
+}
+
+// Wall clock of one run
+interface ExecutionClock {
+    pause: () => () => void;      // stops the clock until the returned resume() is called
+    remainingMs: () => number;
+}
 
 export class CodeExecutor {
+    private pool = new WorkerPool(new URL("./sandbox-worker.js", import.meta.url), LIMITS.SANDBOX_WORKERS, {
+        maxOldGenerationSizeMb: LIMITS.SANDBOX_HEAP_MB,
+        stackSizeMb: LIMITS.SANDBOX_STACK_MB
+    });
+    private sessions = new ExecutionSessions(
+        () => this.pool.spawnDetached(),
+        TIMEOUTS.SESSION_IDLE_TTL_MS,
+        LIMITS.MAX_SESSIONS
+    );
+    private nextExecutionId = 1;
+
     constructor(
         private serverManager: MCPServerManager,
-        private pathNormalizer: PathNormalizer
+        private pathNormalizer: PathNormalizer,
+        private tokenizerName: string = DEFAULT_TOKENIZER
     ) { }
 
-    async executeCode(code: string, toolRegistry: any): Promise<any> {
+    async executeCode(code: string, toolRegistry: any, options: ExecutionOptions = {}): Promise<any> {
         // Input validation
         if (!code || typeof code !== 'string') {
             return {
@@ -29,101 +77,86 @@ export class CodeExecutor {
         const logs: string[] = [];
         const executionStart = Date.now();
         let operationCount = 0;
-
-        const serverNames = new Set<string>([
-            ...this.serverManager.getLoadedServers().keys(),
-            ...this.serverManager.getLazyServers()
-        ]);
-
-        // Build per-server proxies
-        const serversAPI: Record<string, any> = {};
-        for (const name of serverNames) {
-            serversAPI[name] = new Proxy({}, {
-                get: (_target, prop) => {
-                    if (prop === "then" || typeof prop !== "string") return undefined;
-                    return async (rawArgs: any) => {
-                        operationCount++;
-                        const server = await this.serverManager.ensureServerLoaded(name);
-                        const tool = server.tools.find((t) => t.name === prop);
-                        if (!tool) throw new Error(`Tool "${prop}" not found on server "${name}"`);
-                        const args = this.pathNormalizer.normalizeArguments(rawArgs);
-                        const result = await server.call(tool.name, args);
-                        return this.unwrapMCPResult(result);
-                    };
-                }
-            });
+        let cacheHits = 0;
+        const { signal, progress, sessionId, span } = options;
+        if (sessionId !== undefined && (typeof sessionId !== "string" || !sessionId.trim())) {
+            return {
+                content: [{ type: "text", text: "Error: 'sessionId' must be a non-empty string" }],
+                isError: true
+            };
         }
 
-        const sandbox = {
-            servers: serversAPI,
-            console: {
-                log: (...args: any[]) => {
-                    const output = args.map(a => (typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a))).join(" ");
-                    logs.push(output);
-                },
-                error: (...args: any[]) => logs.push("[ERROR] " + args.join(" ")),
-                warn: (...args: any[]) => logs.push("[WARN] " + args.join(" "))
-            },
-            TOON: {
-                encode: (data: any) => TOONEncoder.encode(data),
-                decode: (toon: string) => TOONEncoder.decode(toon)
-            },
-            get_tool_api: async (params: any) => {
-                const result = await toolRegistry.getToolAPI(params.serverName);
-                return this.unwrapMCPResult(result);
-            },
-            search_tools: async (params: any) => {
-                const result = await toolRegistry.searchTools(params.query, params.detailLevel || "name+description");
-                return this.unwrapMCPResult(result);
-            }
-        };
-
-        // Track timers
-        const timers: NodeJS.Timeout[] = [];
-        const intervals: NodeJS.Timeout[] = [];
-
-        (sandbox as any).setTimeout = (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
-            const id = setTimeout(callback, ms, ...args);
-            timers.push(id);
-            return id;
-        };
-        (sandbox as any).setInterval = (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
-            const id = setInterval(callback, ms, ...args);
-            intervals.push(id);
-            return id;
-        };
-        (sandbox as any).clearTimeout = (id: NodeJS.Timeout) => {
-            const index = timers.indexOf(id);
-            if (index > -1) timers.splice(index, 1);
-            clearTimeout(id);
-        };
-        (sandbox as any).clearInterval = (id: NodeJS.Timeout) => {
-            const index = intervals.indexOf(id);
-            if (index > -1) intervals.splice(index, 1);
-            clearInterval(id);
-        };
-
-        const context = vm.createContext(sandbox, {
-            codeGeneration: { strings: false, wasm: false }
-        });
-        // Limit access to host globals inside the VM
-        Object.defineProperty(context, "globalThis", { value: sandbox, writable: false, configurable: false });
-        Object.defineProperty(context, "global", { value: sandbox, writable: false, configurable: false });
-        (context as any).Function = undefined;
-        (context as any).eval = undefined;
+        const serverNames = [
+            ...new Set<string>([
+                ...this.serverManager.getLoadedServers().keys(),
+                ...this.serverManager.getLazyServers()
+            ])
+        ];
 
+        let sessionNote = "";
         try {
-            const wrappedCode = `(async () => { ${code} })()`;
-            const result = await vm.runInContext(wrappedCode, context, { timeout: TIMEOUTS.CODE_EXECUTION_TIMEOUT_MS });
+            if (signal?.aborted) throw new RequestCancelledError("Execution cancelled by client");
+            const submission = await transpileSubmission(code, sessionId !== undefined);
+            if (options.typeCheck === true) {
+                const diagnostics = await typeCheckSubmission(code, this.sandboxDeclarations());
+                if (diagnostics.length) {
+                    throw new TranspileError(diagnostics, "Type check", "Fix the arguments (see get_tool_api detailLevel \"typescript\") or omit typeCheck to run anyway.");
+                }
+            }
+            const context: ExecutionContext = {
+                toolRegistry,
+                signal,
+                progress,
+                sessionId,
+                span,
+                countOperation: () => { operationCount++; },
+                countCacheHit: () => { cacheHits++; }
+            };
+
+            let result: any;
+            if (sessionId) {
+                const lease = await this.sessions.acquire(sessionId, { signal });
+                sessionNote = `\n• Session: ${sessionId} (${lease.created ? "new" : "resumed"})`;
+                let reset = false;
+                try {
+                    result = await this.runInWorker(lease.worker, submission, serverNames, logs, true, context, (terminated) => {
+                        reset = terminated;
+                        lease.release(terminated);
+                    });
+                } catch (err: any) {
+                    if (reset) err.message += ` (session "${sessionId}" was reset; its variables are gone)`;
+                    throw err;
+                }
+            } else {
+                const worker = await this.pool.acquire(signal);
+                result = await this.runInWorker(worker, submission, serverNames, logs, false, context, (terminated) => {
+                    if (terminated) this.pool.discard(worker);
+                    else this.pool.release(worker);
+                });
+            }
 
             const executionTime = Date.now() - executionStart;
             const normalizedResult = this.pathNormalizer.normalizePathsInResult(result);
             const safeResult = normalizedResult === undefined ? null : normalizedResult;
 
-            const originalSize = JSON.stringify(safeResult).length;
+            const originalJson = JSON.stringify(safeResult);
+            const originalSize = originalJson.length;
             const formattedResult = TOONEncoder.encode(safeResult);
             const compressedSize = formattedResult.length;
             const savings = originalSize > 0 ? ((1 - compressedSize / originalSize) * 100).toFixed(1) : "0.0";
+            const tokenizer = await loadTokenizer(this.tokenizerName);
+            const tokens = compareTokens(tokenizer, originalJson, formattedResult);
+            const approx = tokenizer.exact ? "" : "~";
+
+            const metrics = this.serverManager.metrics;
+            metrics.executeCodeSeconds.observe({ outcome: "ok" }, executionTime / 1000);
+            metrics.toonBytesSaved.inc({ source: "execute_code" }, Math.max(0, originalSize - compressedSize));
+            span?.setAttributes({
+                "codemode.operations": operationCount,
+                "codemode.cache.hits": cacheHits,
+                "codemode.json.bytes": originalSize,
+                "codemode.toon.bytes": compressedSize
+            });
 
             const sections: string[] = [];
             if (logs.length) sections.push(`Logs:\n${logs.join("\n")}`);
@@ -131,27 +164,248 @@ export class CodeExecutor {
 
             sections.push(`---
 EFFICIENCY REPORT:
-• Operations: ${operationCount}
+• Operations: ${operationCount}${cacheHits ? ` (${cacheHits} served from cache)` : ""}
 • Original: ${originalSize} bytes
 • Compressed: ${compressedSize} bytes
 • Savings: ${savings}%
-• Time: ${executionTime}ms
-${Number(savings) < 20 ? '\nNOTE: Low compression suggests unstructured data. TOON works best on JSON/structured data.' : ''}`);
+• Tokens (${tokenizer.name}): JSON ${approx}${tokens.json} → TOON ${approx}${tokens.toon} (${tokens.savings.toFixed(1)}% saved)
+• Time: ${executionTime}ms${sessionNote}
+${tokens.savings < 20 ? '\nNOTE: Low compression suggests unstructured data. TOON works best on JSON/structured data.' : ''}`);
 
             return {
                 content: [{ type: "text", text: sections.join("\n\n") }]
             };
         } catch (err: any) {
+            const outcome = err instanceof TranspileError ? "rejected" : err instanceof RequestCancelledError ? "cancelled" : "error";
+            this.serverManager.metrics.executeCodeSeconds.observe({ outcome }, (Date.now() - executionStart) / 1000);
+            if (err instanceof TranspileError) {
+                return { content: [{ type: "text", text: err.message }], isError: true };
+            }
             return {
                 content: [{ type: "text", text: `Execution error: ${err.message}\n\nLogs:\n${logs.join("\n")}` }],
-                isError: true
+                isError: true,
+                // For the caller's recovery hints; not part of the MCP result
+                ...(err?.cause instanceof PolicyDeniedError ? { denial: err.cause } : {})
+            };
+        }
+    }
+
+    /**
+     * Ambient declarations for the sandbox; tools of loaded servers are typed
+     * from their inputSchema.
+     */
+    sandboxDeclarations(): string {
+        const servers = Array.from(this.serverManager.getLoadedServers(), ([name, server]) => ({ name, tools: server.tools }));
+        return generateSandboxDeclarations(servers);
+    }
+
+    listSessions(): SessionInfo[] {
+        return this.sessions.list();
+    }
+
+    closeSession(sessionId: string): boolean {
+        return this.sessions.close(sessionId);
+    }
+
+    async shutdown(): Promise<void> {
+        await this.sessions.closeAll();
+        await this.pool.shutdown();
+    }
+
+    /**
+     * Runs one submission on a worker. onSettled(true) means the worker must be
+     * terminated: on timeout, cancellation, memory exhaustion or crash, or when
+     * a pool worker still has detached async code waiting on the bridge, so
+     * runaway async code cannot outlive its call. Bridge calls still in flight
+     * when the run settles are aborted.
+     */
+    private runInWorker(
+        worker: Worker,
+        submission: TranspiledSubmission,
+        serverNames: string[],
+        logs: string[],
+        persistent: boolean,
+        context: ExecutionContext,
+        onSettled: (terminated: boolean) => void
+    ): Promise<any> {
+        const executionId = this.nextExecutionId++;
+        const { signal } = context;
+        // Replies can no longer be delivered once the run settles
+        const bridgeCalls = new AbortController();
+        // Last policy denial sent to the script, attached as the cause if it ends the run
+        let denial: PolicyDeniedError | undefined;
+        const bridgeContext: ExecutionContext = { ...context, signal: bridgeCalls.signal };
+
+        return new Promise((resolve, reject) => {
+            let finished = false;
+            const post = (msg: ParentMessage) => {
+                if (!finished) worker.postMessage(msg);
+            };
+            const finish = (terminate: boolean, err: Error | null, value?: any) => {
+                if (finished) return;
+                finished = true;
+                clearTimeout(timer);
+                bridgeCalls.abort(err ? err.message : "Execution finished");
+                signal?.removeEventListener("abort", onAbort);
+                worker.off("message", onMessage);
+                worker.off("error", onError);
+                worker.off("exit", onExit);
+                onSettled(terminate);
+                if (err) reject(err);
+                else resolve(value);
+            };
+
+            // The wall clock stops while a tool call waits for the user's confirmation
+            let remainingMs = TIMEOUTS.CODE_EXECUTION_TIMEOUT_MS;
+            let startedAt = Date.now();
+            let paused = 0;
+            let timer: NodeJS.Timeout | undefined;
+            const startClock = () => {
+                startedAt = Date.now();
+                timer = setTimeout(() => {
+                    finish(true, new Error(`Execution timed out after ${TIMEOUTS.CODE_EXECUTION_TIMEOUT_MS}ms`));
+                }, remainingMs);
             };
-        } finally {
-            timers.forEach(clearTimeout);
-            intervals.forEach(clearInterval);
+            const pauseClock = () => {
+                if (paused++ === 0) {
+                    clearTimeout(timer);
+                    remainingMs -= Date.now() - startedAt;
+                }
+                let resumed = false;
+                return () => {
+                    if (resumed) return;
+                    resumed = true;
+                    if (--paused === 0 && !finished) startClock();
+                };
+            };
+            const clock: ExecutionClock = {
+                pause: pauseClock,
+                remainingMs: () => paused ? remainingMs : remainingMs - (Date.now() - startedAt)
+            };
+            startClock();
+
+            const onAbort = () => {
+                const reason = signal ? cancellationReason(signal) : undefined;
+                finish(true, new RequestCancelledError(reason ? `Execution cancelled by client: ${reason}` : "Execution cancelled by client"));
+            };
+            const onError = (err: any) => {
+                if (err?.code === "ERR_WORKER_OUT_OF_MEMORY") {
+                    finish(true, new Error(`Execution exceeded the ${LIMITS.SANDBOX_HEAP_MB}MB memory limit`));
+                } else {
+                    finish(true, err instanceof Error ? err : new Error(String(err)));
+                }
+            };
+            const onExit = (exitCode: number) => {
+                finish(true, new Error(`Sandbox worker exited unexpectedly (code ${exitCode})`));
+            };
+            const onMessage = (msg: WorkerMessage) => {
+                // Ignore stragglers from an earlier submission on this worker
+                if (msg.executionId !== executionId) return;
+                switch (msg.type) {
+                    case "log":
+                        logs.push(msg.line);
+                        break;
+                    case "progress":
+                        context.progress?.report(msg.current, msg.total, msg.message);
+                        break;
+                    case "request":
+                        this.handleBridgeRequest(msg.operation, bridgeContext, clock).then(
+                            (value) => post({ type: "reply", id: msg.id, ok: true, value }),
+                            (err: any) => {
+                                if (err instanceof PolicyDeniedError) denial = err;
+                                post({ type: "reply", id: msg.id, ok: false, error: err?.message ?? String(err), policyDenied: err instanceof PolicyDeniedError });
+                            }
+                        );
+                        break;
+                    case "done": {
+                        // Session workers are kept: their state is the point of a session
+                        const recycle = msg.pending && !persistent;
+                        if (msg.ok) finish(recycle, null, msg.json === undefined ? undefined : JSON.parse(msg.json));
+                        else {
+                            const position = locateInStack(msg.stack, submission);
+                            const where = position ? ` (line ${position.line}, column ${position.column})` : "";
+                            finish(recycle, new Error(`${msg.error}${where}`, msg.policyDenied && denial ? { cause: denial } : undefined));
+                        }
+                        break;
+                    }
+                }
+            };
+
+            worker.on("message", onMessage);
+            worker.on("error", onError);
+            worker.on("exit", onExit);
+            signal?.addEventListener("abort", onAbort, { once: true });
+            post({ type: "execute", executionId, code: submission.js, serverNames, timeoutMs: TIMEOUTS.CODE_EXECUTION_TIMEOUT_MS, persistent });
+        });
+    }
+
+    private async handleBridgeRequest(operation: BridgeOperation, context: ExecutionContext, clock: ExecutionClock): Promise<any> {
+        const { signal, progress, span } = context;
+        if (signal?.aborted) throw new RequestCancelledError("Execution cancelled by client");
+
+        switch (operation.op) {
+            case "tool": {
+                context.countOperation();
+                const server = await this.serverManager.ensureServerLoaded(operation.server, span);
+                const tool = server.tools.find((t) => t.name === operation.tool);
+                if (!tool) throw new Error(`Tool "${operation.tool}" not found on server "${operation.server}"`);
+                const args = this.pathNormalizer.normalizeArguments(operation.args);
+                assertValidArguments(operation.server, tool, args);
+                const timeoutMs = operation.options?.timeoutMs;
+                if (timeoutMs !== undefined && !(typeof timeoutMs === "number" && Number.isFinite(timeoutMs) && timeoutMs > 0)) {
+                    throw new Error(`options.timeoutMs for ${operation.server}.${tool.name} must be a positive number of milliseconds`);
+                }
+                // The worker would be terminated before a longer timeout could fire
+                const remainingMs = Math.max(0, Math.floor(clock.remainingMs()));
+                if (timeoutMs !== undefined && timeoutMs > remainingMs) {
+                    throw new Error(`options.timeoutMs (${timeoutMs}ms) for ${operation.server}.${tool.name} exceeds the ${remainingMs}ms left of the ${TIMEOUTS.CODE_EXECUTION_TIMEOUT_MS}ms execute_code limit`);
+                }
+                const result = await server.call(tool.name, args, {
+                    signal,
+                    onProgress: progress?.relay(`${operation.server}.${tool.name}`),
+                    onAwaitConfirmation: clock.pause,
+                    caller: { origin: "execute_code", sessionId: context.sessionId },
+                    span,
+                    onCacheHit: context.countCacheHit,
+                    timeoutMs
+                });
+                return this.unwrapMCPResult(result);
+            }
+            case "resources.list": {
+                context.countOperation();
+                const server = await this.serverManager.ensureServerLoaded(operation.server, span);
+                return { resources: server.resources, resourceTemplates: server.resourceTemplates };
+            }
+            case "resources.read": {
+                context.countOperation();
+                const server = await this.serverManager.ensureServerLoaded(operation.server, span);
+                const parsed = parseNamespacedUri(operation.uri);
+                const result = await server.readResource(parsed && parsed.server === operation.server ? parsed.uri : operation.uri);
+                return this.unwrapResourceContents(result);
+            }
+            case "get_tool_api":
+                return this.unwrapMCPResult(await context.toolRegistry.getToolAPI(operation.params.serverName, operation.params.detailLevel));
+            case "search_tools":
+                return this.unwrapMCPResult(await context.toolRegistry.searchTools(operation.params.query, operation.params.detailLevel || "name+description"));
         }
     }
 
+    private unwrapResourceContents(result: any): any {
+        const contents: any[] = result?.contents || [];
+        const unwrapped = contents.map((content) => {
+            if (typeof content.text !== "string") {
+                return { uri: content.uri, mimeType: content.mimeType, blob: content.blob };
+            }
+            if ((content.mimeType || "").includes("json")) {
+                try {
+                    return JSON.parse(content.text);
+                } catch { }
+            }
+            return content.text;
+        });
+        return unwrapped.length === 1 ? unwrapped[0] : unwrapped;
+    }
+
     private unwrapMCPResult(result: any): any {
         let unwrapped = result;
         if (result && result.content && Array.isArray(result.content)) {
@@ -1,15 +1,98 @@
 import { readFile } from "fs/promises";
+import * as path from "path";
 import { PathNormalizer } from "./path-normalizer.js";
 
+export interface AuthConfig {
+    token?: string;          // static token
+    tokenEnv?: string;       // name of an environment variable holding the token
+    tokenCommand?: string;   // shell command whose stdout is the token (re-run on 401)
+    header?: string;         // defaults to "authorization"
+    scheme?: string;         // defaults to "Bearer"; set to "" to send the raw token
+}
+
+export type PolicyAction = "allow" | "deny" | "require-confirmation" | "read-only";
+
+export interface PolicyRule {
+    server?: string;         // server name glob, defaults to "*"
+    tools?: string[];        // tool name globs, defaults to ["*"]
+    action: PolicyAction;
+    reason?: string;         // shown to the agent when the rule blocks a call
+}
+
+export interface PolicyConfig {
+    default?: PolicyAction;  // used when no rule matches; defaults to "allow"
+    rules?: PolicyRule[];    // first matching rule wins
+}
+
+export interface AuditConfig {
+    enabled?: boolean;       // defaults to true once an "audit" section exists
+    path?: string;           // JSONL file; relative paths resolve against the config file
+    maxBytes?: number;       // rotate once the active file reaches this size
+    maxFiles?: number;       // rotated files to keep
+    logArguments?: boolean;  // store arguments, not just their hash
+}
+
+export interface RedactionConfig {
+    values?: string[];       // literal secrets to mask
+    patterns?: string[];     // regular expressions to mask wherever they match
+}
+
+export interface MetricsConfig {
+    port?: number;           // serve GET /metrics on this port (0 picks a free one)
+    host?: string;           // defaults to 127.0.0.1
+}
+
+export interface CacheRule {
+    server?: string;         // server name glob, defaults to "*"
+    tools: string[];         // tool name globs; only matching tools are cached
+    ttlSeconds: number;      // how long a result stays fresh
+    maxEntries?: number;     // per tool; least recently used results go first
+    maxBytes?: number;       // per tool, JSON size of the cached results
+}
+
+export interface CacheConfig {
+    enabled?: boolean;       // defaults to true once rules exist
+    path?: string;           // on-disk store; relative paths resolve against the config file
+    rules?: CacheRule[];     // first matching rule applies
+}
+
+export interface TracingConfig {
+    enabled?: boolean;       // defaults to true once a file or endpoint is set
+    file?: string;           // OTLP/JSON lines; relative paths resolve against the config file
+    endpoint?: string;       // OTLP/HTTP collector URL, e.g. http://localhost:4318/v1/traces
+    headers?: Record<string, string>;  // sent with every export to the endpoint
+    serviceName?: string;    // resource service.name; defaults to code-mode-toon
+}
+
+export interface RateLimitConfig {
+    requests: number;        // calls allowed per window
+    perSeconds?: number;     // window length; defaults to 1
+    burst?: number;          // calls allowed back to back after idling; defaults to requests
+}
+
+export interface TimeoutConfig {
+    handshakeMs?: number;    // initialize handshake
+    listMs?: number;         // tools/list and the resources/prompts lists
+    callMs?: number;         // tools/call, resources/read and prompts/get
+    tools?: Record<string, number>;  // tools/call timeout by tool glob; first match wins over callMs
+}
+
 export interface MCPServer {
     name: string;
     command?: string;
     args?: string[];
     url?: string;
+    headers?: Record<string, string>;
+    auth?: AuthConfig;
     env?: Record<string, string>;
     priority?: string;
     lazy?: boolean;
     disabled?: boolean;
+    idempotentTools?: string[];   // tool globs safe to retry after a crash/restart
+    noCoalesceTools?: string[];   // tool globs whose identical concurrent calls must each run
+    maxConcurrency?: number;      // tools/call requests in flight at once; more are queued
+    rateLimit?: RateLimitConfig;  // token bucket for starting tools/call requests
+    timeouts?: TimeoutConfig;     // overrides of the TIMEOUTS defaults for this server
 }
 
 export interface CodeModeConfig {
@@ -19,6 +102,12 @@ export interface CodeModeConfig {
 
 export interface ServerConfig {
     mcpServers: Record<string, MCPServer>;
+    policy?: PolicyConfig;
+    audit?: AuditConfig;
+    redaction?: RedactionConfig;
+    metrics?: MetricsConfig;
+    tracing?: TracingConfig;
+    cache?: CacheConfig;
     optimizations?: Record<string, any>;
 }
 
@@ -59,6 +148,49 @@ export class ConfigManager {
         return this.config.mcpServers || {};
     }
 
+    getPolicy(): PolicyConfig | undefined {
+        return this.config?.policy;
+    }
+
+    /** Vocabulary for token counts in efficiency reports ("optimizations.tokenizer"). */
+    getTokenizer(): string | undefined {
+        return this.config?.optimizations?.tokenizer;
+    }
+
+    getMetrics(): MetricsConfig | undefined {
+        return this.config?.metrics;
+    }
+
+    getRedaction(): RedactionConfig | undefined {
+        return this.config?.redaction;
+    }
+
+    /** Audit settings with the log path resolved, or undefined when auditing is off. */
+    getAudit(): (AuditConfig & { path: string }) | undefined {
+        const audit = this.config?.audit;
+        if (!audit || audit.enabled === false) return undefined;
+        const file = PathNormalizer.expandPath(audit.path || "code-mode-toon-audit.jsonl");
+        return { ...audit, path: path.resolve(path.dirname(this.configPath), file) };
+    }
+
+    /** Cache settings with the store path resolved, or undefined when no tool is cached. */
+    getCache(): (CacheConfig & { path: string }) | undefined {
+        const cache = this.config?.cache;
+        if (!cache || cache.enabled === false || !cache.rules?.length) return undefined;
+        const file = PathNormalizer.expandPath(cache.path || "code-mode-toon-cache.json");
+        return { ...cache, path: path.resolve(path.dirname(this.configPath), file) };
+    }
+
+    /** Tracing settings with the trace file resolved, or undefined when tracing is off. */
+    getTracing(): TracingConfig | undefined {
+        const tracing = this.config?.tracing;
+        if (!tracing || tracing.enabled === false || (!tracing.file && !tracing.endpoint)) return undefined;
+        const file = tracing.file
+            ? path.resolve(path.dirname(this.configPath), PathNormalizer.expandPath(tracing.file))
+            : undefined;
+        return { ...tracing, file };
+    }
+
     getProjectRoot(): string {
         return this.codeModeConfig.projectRoot;
     }
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { TOONEncoder } from "../toon-encoder.js";
+import { TIMEOUTS } from "../constants.js";
+import { ConfirmationRequest } from "./mcp-server-manager.js";
+
+// elicitation/create postdates the SDK version we build against, so the
+// result shape is declared here
+export const ElicitResultSchema = z
+    .object({
+        action: z.enum(["accept", "decline", "cancel"]),
+        content: z.optional(z.record(z.unknown()))
+    })
+    .passthrough();
+
+export function confirmationMessage(request: ConfirmationRequest): string {
+    return [
+        `Allow ${request.server}.${request.tool}?`,
+        ...(request.description ? [request.description] : []),
+        `Policy: ${request.reason}`,
+        "Arguments (TOON):",
+        TOONEncoder.encode(request.args ?? {})
+    ].join("\n");
+}
+
+/**
+ * Asks the user to approve one downstream tool call through the client's
+ * elicitation support. Resolves true only when the user accepts; throws if
+ * the client cannot elicit or does not answer in time.
+ */
+export async function requestToolConfirmation(server: Server, request: ConfirmationRequest): Promise<boolean> {
+    if (!server.getClientCapabilities()?.elicitation) {
+        throw new Error("the client does not support elicitation");
+    }
+
+    const result = await server.request(
+        {
+            method: "elicitation/create",
+            params: {
+                message: confirmationMessage(request),
+                requestedSchema: {
+                    type: "object",
+                    properties: {
+                        confirm: { type: "boolean", title: `Run ${request.server}.${request.tool}`, default: true }
+                    }
+                }
+            }
+        },
+        ElicitResultSchema,
+        { signal: request.signal, timeout: TIMEOUTS.CONFIRMATION_TIMEOUT_MS }
+    );
+    return result.action === "accept" && result.content?.confirm !== false;
+}
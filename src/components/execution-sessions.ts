@@ -0,0 +1,188 @@
+import { Worker } from "node:worker_threads";
+import { cancellationReason, RequestCancelledError } from "./json-rpc-channel.js";
+
+export interface SessionInfo {
+    sessionId: string;
+    createdAt: string;
+    lastUsedAt: string;
+    executions: number;
+    busy: boolean;
+    expiresInSeconds: number | null;   // null while a submission is running or queued
+}
+
+export interface SessionLease {
+    worker: Worker;
+    created: boolean;
+    release: (terminated: boolean) => void;
+}
+
+interface Session {
+    id: string;
+    worker: Worker;
+    createdAt: number;
+    lastUsedAt: number;
+    executions: number;
+    waiting: number;        // submissions holding or queued for the worker
+    tail: Promise<void>;    // settles when the last queued submission finishes
+    expiry?: NodeJS.Timeout;
+}
+
+/**
+ * Named execute_code sessions. Each session owns a dedicated worker whose vm
+ * context survives between calls; submissions to one session run one at a
+ * time. Idle sessions expire after the TTL and the least recently used idle
+ * session is evicted when the limit is reached.
+ */
+export class ExecutionSessions {
+    private sessions: Map<string, Session> = new Map();
+
+    constructor(
+        private spawn: () => Worker,
+        private ttlMs: number,
+        private maxSessions: number
+    ) { }
+
+    /**
+     * Waits for the session's previous submission to finish. Aborting the
+     * signal while queued gives up this turn without disturbing the ones
+     * queued behind it.
+     */
+    async acquire(sessionId: string, options: { signal?: AbortSignal } = {}): Promise<SessionLease> {
+        const { signal } = options;
+        if (signal?.aborted) throw new RequestCancelledError("Execution cancelled by client");
+
+        let session = this.sessions.get(sessionId);
+        const created = !session;
+        if (!session) session = this.create(sessionId);
+
+        session.waiting++;
+        this.clearExpiry(session);
+        const previous = session.tail;
+        let done!: () => void;
+        session.tail = new Promise<void>((resolve) => { done = resolve; });
+
+        const current = session;
+        await new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                // The next submission still waits for the previous one
+                previous.then(done);
+                current.waiting--;
+                if (current.waiting === 0 && this.sessions.get(sessionId) === current) this.scheduleExpiry(current);
+                const reason = cancellationReason(signal!);
+                reject(new RequestCancelledError(`Execution cancelled by client while waiting for session "${sessionId}"${reason ? `: ${reason}` : ""}`));
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            previous.then(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            });
+        });
+
+        if (this.sessions.get(sessionId) !== current) {
+            done();
+            throw new Error(`Session "${sessionId}" was closed`);
+        }
+        current.worker.ref();
+
+        let released = false;
+        return {
+            worker: current.worker,
+            created,
+            release: (terminated: boolean) => {
+                if (released) return;
+                released = true;
+                current.waiting--;
+                if (terminated) {
+                    this.remove(current);
+                } else {
+                    current.executions++;
+                    current.lastUsedAt = Date.now();
+                    if (current.waiting === 0) {
+                        current.worker.unref();
+                        this.scheduleExpiry(current);
+                    }
+                }
+                done();
+            }
+        };
+    }
+
+    list(): SessionInfo[] {
+        const now = Date.now();
+        return Array.from(this.sessions.values()).map((session) => ({
+            sessionId: session.id,
+            createdAt: new Date(session.createdAt).toISOString(),
+            lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+            executions: session.executions,
+            busy: session.waiting > 0,
+            expiresInSeconds: session.waiting > 0
+                ? null
+                : Math.max(0, Math.round((session.lastUsedAt + this.ttlMs - now) / 1000))
+        }));
+    }
+
+    close(sessionId: string): boolean {
+        const session = this.sessions.get(sessionId);
+        if (!session) return false;
+        this.remove(session);
+        return true;
+    }
+
+    async closeAll(): Promise<void> {
+        const workers = Array.from(this.sessions.values()).map((session) => session.worker);
+        for (const session of Array.from(this.sessions.values())) {
+            this.clearExpiry(session);
+        }
+        this.sessions.clear();
+        await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    private create(sessionId: string): Session {
+        if (this.sessions.size >= this.maxSessions) {
+            const idle = Array.from(this.sessions.values())
+                .filter((session) => session.waiting === 0)
+                .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+            if (!idle.length) {
+                throw new Error(`Too many active sessions (max ${this.maxSessions}). Close one with close_session.`);
+            }
+            console.error(`[CodeMode+TOON] Evicting idle session "${idle[0].id}" (max ${this.maxSessions} sessions)`);
+            this.remove(idle[0]);
+        }
+
+        const now = Date.now();
+        const session: Session = {
+            id: sessionId,
+            worker: this.spawn(),
+            createdAt: now,
+            lastUsedAt: now,
+            executions: 0,
+            waiting: 0,
+            tail: Promise.resolve()
+        };
+        // A session whose worker dies (OOM, crash) is forgotten
+        session.worker.once("exit", () => {
+            if (this.sessions.get(sessionId) === session) this.remove(session);
+        });
+        this.sessions.set(sessionId, session);
+        return session;
+    }
+
+    private remove(session: Session): void {
+        this.clearExpiry(session);
+        if (this.sessions.get(session.id) === session) this.sessions.delete(session.id);
+        void session.worker.terminate();
+    }
+
+    private scheduleExpiry(session: Session): void {
+        this.clearExpiry(session);
+        session.expiry = setTimeout(() => {
+            if (session.waiting === 0) this.remove(session);
+        }, this.ttlMs);
+        session.expiry.unref();
+    }
+
+    private clearExpiry(session: Session): void {
+        if (session.expiry) clearTimeout(session.expiry);
+        session.expiry = undefined;
+    }
+}
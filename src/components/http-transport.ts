@@ -0,0 +1,495 @@
+import { EventSource } from "eventsource";
+import {
+    cancellationReason,
+    JsonRpcError,
+    NotificationHandler,
+    RequestCancelledError,
+    ProgressUpdate,
+    RequestOptions,
+    RpcConnection,
+    withProgressToken
+} from "./json-rpc-channel.js";
+
+export type HttpTransportMode = "streamable-http" | "sse";
+
+export class HttpStatusError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = "HttpStatusError";
+    }
+}
+
+/**
+ * Supplies per-request headers (auth, custom). refresh() is called once after
+ * a 401 and should resolve true when a retry may now succeed.
+ */
+export interface HeaderSource {
+    getHeaders(): Promise<Record<string, string>>;
+    refresh(): Promise<boolean>;
+}
+
+const NO_HEADERS: HeaderSource = {
+    getHeaders: async () => ({}),
+    refresh: async () => false
+};
+
+interface PendingRequest {
+    method: string;
+    resolve: (value: any) => void;
+    reject: (err: Error) => void;
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+// POST failures that mean "this endpoint does not speak Streamable HTTP"
+const LEGACY_FALLBACK_STATUSES = new Set([400, 404, 405]);
+
+/**
+ * Client side of the MCP HTTP transports. Speaks Streamable HTTP (2025-03-26)
+ * with session ids and SSE-framed responses, and falls back to the legacy
+ * HTTP+SSE transport (2024-11-05) when the initial POST is rejected.
+ */
+export class HttpTransport implements RpcConnection {
+    private nextId = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+    private notificationHandlers: Map<string, Set<NotificationHandler>> = new Map();
+    private closeHandlers: Set<(err: Error) => void> = new Set();
+    private closedError?: Error;
+    private sessionId?: string;
+    private protocolVersion?: string;
+    private legacySource?: EventSource;
+    private notificationSource?: EventSource;
+    private legacyEndpoint?: string;
+    private _mode: HttpTransportMode = "streamable-http";
+    private handshake?: { clientInfo: { name: string; version: string }; options: RequestOptions };
+    private renewing?: Promise<void>;
+
+    constructor(private url: string, private label: string, private headerSource: HeaderSource = NO_HEADERS) {
+        this.onNotification("notifications/progress", (params) => {
+            const entry = this.pending.get(Number(params?.progressToken));
+            entry?.onProgress?.({ progress: params.progress, total: params.total, message: params.message });
+        });
+    }
+
+    get closed(): boolean {
+        return this.closedError !== undefined;
+    }
+
+    get mode(): HttpTransportMode {
+        return this._mode;
+    }
+
+    get session(): string | undefined {
+        return this.sessionId;
+    }
+
+    /**
+     * Performs the initialize request, negotiating the transport. Returns the
+     * server's InitializeResult.
+     */
+    async initialize(clientInfo: { name: string; version: string }, options: RequestOptions = {}): Promise<any> {
+        const params = (protocolVersion: string) => ({ protocolVersion, capabilities: {}, clientInfo });
+        this.handshake = { clientInfo, options: { timeoutMs: options.timeoutMs, timeoutMessage: options.timeoutMessage } };
+
+        try {
+            const result = await this.request("initialize", params("2025-03-26"), options);
+            this.protocolVersion = result?.protocolVersion;
+            return result;
+        } catch (err) {
+            if (!(err instanceof HttpStatusError) || !LEGACY_FALLBACK_STATUSES.has(err.status)) throw err;
+            console.error(`[CodeMode+TOON] ${this.label} rejected Streamable HTTP (${err.status}); falling back to SSE transport`);
+        }
+
+        this._mode = "sse";
+        this.sessionId = undefined;
+        await this.openLegacyStream(options.timeoutMs);
+        const result = await this.request("initialize", params("2024-11-05"), options);
+        this.protocolVersion = result?.protocolVersion;
+        return result;
+    }
+
+    request(method: string, params?: any, options: RequestOptions = {}): Promise<any> {
+        if (this.closedError) {
+            return Promise.reject(this.closedError);
+        }
+        if (options.signal?.aborted) {
+            return Promise.reject(new RequestCancelledError(`${method} on ${this.label} cancelled before it was sent`));
+        }
+
+        const id = this.nextId++;
+        const sentParams = withProgressToken(params, id, options);
+        const message = sentParams === undefined ? { jsonrpc: "2.0", id, method } : { jsonrpc: "2.0", id, method, params: sentParams };
+        const controller = new AbortController();
+        let timeout: NodeJS.Timeout | undefined;
+        let detachSignal: (() => void) | undefined;
+
+        const response = new Promise<any>((resolve, reject) => {
+            this.pending.set(id, { method, resolve, reject, onProgress: options.onProgress });
+            if (options.timeoutMs !== undefined) {
+                timeout = setTimeout(() => {
+                    this.pending.delete(id);
+                    controller.abort();
+                    reject(new Error(options.timeoutMessage || `Timeout waiting for ${method} on ${this.label}`));
+                }, options.timeoutMs);
+            }
+            const signal = options.signal;
+            if (signal) {
+                const onAbort = () => {
+                    if (!this.pending.delete(id)) return;
+                    const reason = cancellationReason(signal);
+                    this.notify("notifications/cancelled", reason ? { requestId: id, reason } : { requestId: id });
+                    reject(new RequestCancelledError(`${method} on ${this.label} cancelled${reason ? `: ${reason}` : ""}`));
+                };
+                signal.addEventListener("abort", onAbort, { once: true });
+                detachSignal = () => signal.removeEventListener("abort", onAbort);
+            }
+        });
+
+        const post = this._mode === "sse"
+            ? this.postLegacy(message, controller.signal)
+            : this.postStreamable(message, controller.signal).then(() => {
+                // The POST stream ended without carrying our response
+                this.fail(id, new Error(`HTTP MCP ${this.label} closed the stream before answering ${method}`));
+            });
+        post.catch((err) => this.fail(id, err));
+
+        return response.finally(() => {
+            if (timeout) clearTimeout(timeout);
+            detachSignal?.();
+            controller.abort();
+        });
+    }
+
+    notify(method: string, params?: any): void {
+        if (this.closedError) return;
+        const message = params === undefined ? { jsonrpc: "2.0", method } : { jsonrpc: "2.0", method, params };
+        const post = this._mode === "sse"
+            ? this.postLegacy(message)
+            : this.postStreamable(message);
+        post.catch((err) => {
+            console.error(`[CodeMode+TOON] ${this.label} notification ${method} failed: ${err?.message || err}`);
+        });
+    }
+
+    /**
+     * Opens the optional GET stream Streamable HTTP servers use for
+     * server-initiated notifications (e.g. list_changed). Legacy SSE already
+     * delivers them on its main stream. Servers without the stream answer 405,
+     * which simply leaves it closed.
+     */
+    openNotificationStream(): void {
+        if (this._mode !== "streamable-http" || this.notificationSource || this.closedError) return;
+
+        const source = new EventSource(this.url, {
+            fetch: async (input, init) => fetch(input, {
+                ...init,
+                headers: { ...(init?.headers || {}), ...(await this.buildHeaders()) }
+            })
+        });
+        this.notificationSource = source;
+        source.addEventListener("message", (event) => {
+            this.dispatchPayload(event.data);
+        });
+        source.addEventListener("error", () => {
+            if (source.readyState === EventSource.CLOSED && this.notificationSource === source) {
+                this.notificationSource = undefined;
+            }
+        });
+    }
+
+    onNotification(method: string, handler: NotificationHandler): () => void {
+        let handlers = this.notificationHandlers.get(method);
+        if (!handlers) {
+            handlers = new Set();
+            this.notificationHandlers.set(method, handlers);
+        }
+        handlers.add(handler);
+        return () => handlers!.delete(handler);
+    }
+
+    onClose(handler: (err: Error) => void): void {
+        if (this.closedError) {
+            handler(this.closedError);
+            return;
+        }
+        this.closeHandlers.add(handler);
+    }
+
+    close(reason: Error = new Error(`Connection to "${this.label}" closed`)): void {
+        if (this.closedError) return;
+        this.closedError = reason;
+
+        this.legacySource?.close();
+        this.notificationSource?.close();
+        if (this._mode === "streamable-http" && this.sessionId) {
+            // Best-effort session teardown; servers may answer 405 if they do not support it
+            this.buildHeaders()
+                .then((headers) => fetch(this.url, { method: "DELETE", headers }))
+                .catch(() => { });
+        }
+
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const entry of pending) entry.reject(reason);
+
+        for (const handler of this.closeHandlers) {
+            try { handler(reason); } catch { }
+        }
+        this.closeHandlers.clear();
+    }
+
+    private async buildHeaders(extra: Record<string, string> = {}): Promise<Record<string, string>> {
+        const headers: Record<string, string> = { ...(await this.headerSource.getHeaders()), ...extra };
+        if (this.sessionId) headers["mcp-session-id"] = this.sessionId;
+        if (this.protocolVersion) headers["mcp-protocol-version"] = this.protocolVersion;
+        return headers;
+    }
+
+    /**
+     * fetch() wrapper that attaches the server's headers and retries once
+     * with refreshed credentials when the server answers 401.
+     */
+    private async authorizedFetch(url: string, init: RequestInit, extraHeaders: Record<string, string> = {}): Promise<Response> {
+        let response = await fetch(url, { ...init, headers: await this.buildHeaders(extraHeaders) });
+        if (response.status === 401 && await this.headerSource.refresh()) {
+            await response.body?.cancel().catch(() => { });
+            console.error(`[CodeMode+TOON] ${this.label} returned 401; retrying with refreshed credentials`);
+            response = await fetch(url, { ...init, headers: await this.buildHeaders(extraHeaders) });
+        }
+        return response;
+    }
+
+    /**
+     * Starts a new session after the server forgot ours (404), as the spec
+     * asks of clients. Concurrent requests that hit the same expired session
+     * share one renewal; the GET notification stream is reopened on it.
+     */
+    private renewSession(expired: string): Promise<void> {
+        if (this.sessionId !== expired) return this.renewing ?? Promise.resolve();
+        if (!this.renewing) {
+            console.error(`[CodeMode+TOON] ${this.label} session ${expired} expired; starting a new session`);
+            const hadNotificationStream = this.notificationSource !== undefined;
+            this.notificationSource?.close();
+            this.notificationSource = undefined;
+            this.sessionId = undefined;
+            this.protocolVersion = undefined;
+            const { clientInfo, options } = this.handshake!;
+            this.renewing = this.request("initialize", { protocolVersion: "2025-03-26", capabilities: {}, clientInfo }, options)
+                .then((result) => {
+                    this.protocolVersion = result?.protocolVersion;
+                    this.notify("notifications/initialized");
+                    if (hadNotificationStream) this.openNotificationStream();
+                })
+                .catch((err) => {
+                    this.close(new Error(`HTTP MCP ${this.label} session ${expired} expired and could not be renewed: ${err?.message || err}`));
+                    throw err;
+                })
+                .finally(() => {
+                    this.renewing = undefined;
+                });
+        }
+        return this.renewing;
+    }
+
+    private async postStreamable(message: any, signal?: AbortSignal, retried = false): Promise<void> {
+        // Requests sent while a session is being renewed go out on the new one
+        if (this.renewing && message.method !== "initialize") await this.renewing;
+        const sentSession = this.sessionId;
+        const response = await this.authorizedFetch(this.url, {
+            method: "POST",
+            body: JSON.stringify(message),
+            signal
+        }, {
+            "content-type": "application/json",
+            "accept": "application/json, text/event-stream"
+        });
+
+        const sessionId = response.headers.get("mcp-session-id");
+        if (sessionId) this.sessionId = sessionId;
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => "");
+            if (response.status === 404 && sentSession && message.method !== "initialize") {
+                if (!retried && this.handshake) {
+                    await this.renewSession(sentSession);
+                    return this.postStreamable(message, signal, true);
+                }
+                this.close(new Error(`HTTP MCP ${this.label} session ${sentSession} expired`));
+            }
+            throw new HttpStatusError(`HTTP MCP ${this.label} request failed (${response.status}): ${body}`, response.status);
+        }
+
+        if (response.status === 202 || !response.body) return;
+
+        const contentType = response.headers.get("content-type") || "";
+        if (contentType.includes("text/event-stream")) {
+            await readEventStream(response.body, (event) => {
+                if (event.event !== "message" || !event.data) return;
+                this.dispatchPayload(event.data);
+            });
+            return;
+        }
+
+        const text = await response.text();
+        if (text.trim()) this.dispatchPayload(text);
+    }
+
+    private async postLegacy(message: any, signal?: AbortSignal): Promise<void> {
+        if (!this.legacyEndpoint) {
+            throw new Error(`HTTP MCP ${this.label} SSE endpoint not established`);
+        }
+        const response = await this.authorizedFetch(this.legacyEndpoint, {
+            method: "POST",
+            body: JSON.stringify(message),
+            signal
+        }, { "content-type": "application/json" });
+        if (!response.ok) {
+            const body = await response.text().catch(() => "");
+            throw new HttpStatusError(`HTTP MCP ${this.label} request failed (${response.status}): ${body}`, response.status);
+        }
+        // Responses arrive asynchronously on the SSE stream
+        await response.body?.cancel().catch(() => { });
+    }
+
+    private openLegacyStream(timeoutMs?: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const source = new EventSource(this.url, {
+                fetch: async (input, init) => fetch(input, {
+                    ...init,
+                    headers: { ...(init?.headers || {}), ...(await this.headerSource.getHeaders()) }
+                })
+            });
+            this.legacySource = source;
+
+            const timeout = timeoutMs !== undefined
+                ? setTimeout(() => {
+                    source.close();
+                    reject(new Error(`Timeout opening SSE stream for ${this.label}`));
+                }, timeoutMs)
+                : undefined;
+
+            source.addEventListener("endpoint", (event) => {
+                this.legacyEndpoint = new URL(event.data, this.url).toString();
+                if (timeout) clearTimeout(timeout);
+                resolve();
+            });
+            source.addEventListener("message", (event) => {
+                this.dispatchPayload(event.data);
+            });
+            source.addEventListener("error", (event) => {
+                if (source.readyState !== EventSource.CLOSED) return;
+                const err = new Error(`HTTP MCP ${this.label} SSE stream closed${event.message ? `: ${event.message}` : ""}`);
+                if (timeout) clearTimeout(timeout);
+                if (!this.legacyEndpoint) {
+                    reject(err);
+                } else {
+                    this.close(err);
+                }
+            });
+        });
+    }
+
+    private fail(id: number, err: Error): void {
+        const entry = this.pending.get(id);
+        if (!entry) return;
+        this.pending.delete(id);
+        entry.reject(err);
+    }
+
+    private dispatchPayload(raw: string): void {
+        let payload: any;
+        try {
+            payload = JSON.parse(raw);
+        } catch {
+            return;
+        }
+        for (const msg of Array.isArray(payload) ? payload : [payload]) {
+            this.dispatch(msg);
+        }
+    }
+
+    private dispatch(msg: any): void {
+        if (!msg || typeof msg !== "object") return;
+
+        if (typeof msg.method === "string") {
+            // Server-initiated requests are not supported over HTTP; only notifications are routed
+            if (msg.id !== undefined) return;
+            const handlers = this.notificationHandlers.get(msg.method);
+            if (!handlers) return;
+            for (const handler of handlers) {
+                try {
+                    handler(msg.params);
+                } catch (err: any) {
+                    console.error(`[CodeMode+TOON] ${this.label} notification handler for ${msg.method} failed: ${err?.message || err}`);
+                }
+            }
+            return;
+        }
+
+        if (typeof msg.id !== "number") return;
+        const entry = this.pending.get(msg.id);
+        if (!entry) return;
+        this.pending.delete(msg.id);
+
+        if (msg.error) {
+            entry.reject(new JsonRpcError(msg.error.message || `${entry.method} failed`, msg.error.code, msg.error.data));
+        } else {
+            entry.resolve(msg.result);
+        }
+    }
+}
+
+/**
+ * Incremental text/event-stream parser. Invokes onEvent for every dispatched
+ * event; "event" defaults to "message" as in the EventSource spec.
+ */
+export async function readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: { event: string; data: string; id?: string }) => void
+): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let eventName = "";
+    let dataLines: string[] = [];
+    let lastId: string | undefined;
+
+    const flush = () => {
+        if (dataLines.length > 0) {
+            onEvent({ event: eventName || "message", data: dataLines.join("\n"), id: lastId });
+        }
+        eventName = "";
+        dataLines = [];
+    };
+
+    const reader = body.getReader();
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let newline: number;
+            while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + (buffer.startsWith("\r\n", newline) ? 2 : 1));
+
+                if (line === "") {
+                    flush();
+                    continue;
+                }
+                if (line.startsWith(":")) continue;
+
+                const colon = line.indexOf(":");
+                const field = colon === -1 ? line : line.slice(0, colon);
+                let value = colon === -1 ? "" : line.slice(colon + 1);
+                if (value.startsWith(" ")) value = value.slice(1);
+
+                if (field === "event") eventName = value;
+                else if (field === "data") dataLines.push(value);
+                else if (field === "id") lastId = value;
+            }
+        }
+        flush();
+    } finally {
+        try { reader.releaseLock(); } catch { }
+    }
+}
@@ -0,0 +1,313 @@
+import { ChildProcess } from "child_process";
+
+export interface ProgressUpdate {
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+export interface RequestOptions {
+    timeoutMs?: number;
+    timeoutMessage?: string;
+    signal?: AbortSignal;
+    // When set, the request carries _meta.progressToken and matching
+    // notifications/progress are routed here while it is pending
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+/**
+ * Adds _meta.progressToken to request params when a progress callback is set.
+ */
+export function withProgressToken(params: any, token: number, options: RequestOptions): any {
+    if (!options.onProgress) return params;
+    const base = params && typeof params === "object" ? params : {};
+    return { ...base, _meta: { ...(base._meta || {}), progressToken: token } };
+}
+
+export class RequestCancelledError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AbortError";
+    }
+}
+
+export function cancellationReason(signal: AbortSignal): string | undefined {
+    return typeof signal.reason === "string" ? signal.reason : undefined;
+}
+
+/**
+ * Promise that rejects with RequestCancelledError once the signal aborts.
+ * Meant for Promise.race against work that cannot observe the signal itself.
+ */
+export function rejectOnAbort(signal: AbortSignal, message: string): Promise<never> {
+    return new Promise<never>((_, reject) => {
+        const fail = () => {
+            const reason = cancellationReason(signal);
+            reject(new RequestCancelledError(reason ? `${message}: ${reason}` : message));
+        };
+        if (signal.aborted) fail();
+        else signal.addEventListener("abort", fail, { once: true });
+    });
+}
+
+export class JsonRpcError extends Error {
+    constructor(message: string, public readonly code?: number, public readonly data?: any) {
+        super(message);
+        this.name = "JsonRpcError";
+    }
+}
+
+export type NotificationHandler = (params: any) => void;
+
+/**
+ * Transport-independent view of a downstream MCP connection. Implemented by
+ * JsonRpcChannel (stdio) and HttpTransport (Streamable HTTP / legacy SSE).
+ */
+export interface RpcConnection {
+    readonly closed: boolean;
+    request(method: string, params?: any, options?: RequestOptions): Promise<any>;
+    notify(method: string, params?: any): void;
+    onNotification(method: string, handler: NotificationHandler): () => void;
+    onClose(handler: (err: Error) => void): void;
+    close(reason?: Error): void;
+}
+
+type RequestHandler = (params: any) => any | Promise<any>;
+
+interface PendingRequest {
+    method: string;
+    resolve: (value: any) => void;
+    reject: (err: Error) => void;
+    timeout?: NodeJS.Timeout;
+    detachSignal?: () => void;
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+/**
+ * Single reader/writer for a stdio MCP child. Owns the request id counter and
+ * the pending-request table so concurrent calls never share a listener.
+ */
+export class JsonRpcChannel implements RpcConnection {
+    private nextId = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+    private notificationHandlers: Map<string, Set<NotificationHandler>> = new Map();
+    private requestHandlers: Map<string, RequestHandler> = new Map();
+    private closeHandlers: Set<(err: Error) => void> = new Set();
+    private buffer = "";
+    private closedError?: Error;
+
+    constructor(private child: ChildProcess, private label: string) {
+        this.requestHandlers.set("ping", () => ({}));
+        this.onNotification("notifications/progress", (params) => {
+            // Progress tokens are the ids of the requests that asked for them
+            const entry = this.pending.get(Number(params?.progressToken));
+            entry?.onProgress?.({ progress: params.progress, total: params.total, message: params.message });
+        });
+
+        // Decoded as a stream so multi-byte characters split across chunks survive
+        child.stdout?.setEncoding("utf8");
+        child.stdout?.on("data", (data: string) => this.onData(data));
+        // Writes to a child that just died fail with EPIPE here, not as uncaught exceptions
+        child.stdin?.on("error", (err) => {
+            this.close(new Error(`Server "${label}" stdin closed: ${err.message}`));
+        });
+        child.on("exit", (code, signal) => {
+            this.close(new Error(`Server "${label}" exited (${signal ? `signal ${signal}` : `code ${code}`})`));
+        });
+        child.on("error", (err) => {
+            this.close(new Error(`Server "${label}" process error: ${err.message}`));
+        });
+    }
+
+    get closed(): boolean {
+        return this.closedError !== undefined;
+    }
+
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    request(method: string, params?: any, options: RequestOptions = {}): Promise<any> {
+        if (this.closedError) {
+            return Promise.reject(this.closedError);
+        }
+        if (options.signal?.aborted) {
+            return Promise.reject(new RequestCancelledError(`${method} on ${this.label} cancelled before it was sent`));
+        }
+
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            const entry: PendingRequest = { method, resolve, reject, onProgress: options.onProgress };
+            if (options.timeoutMs !== undefined) {
+                entry.timeout = setTimeout(() => {
+                    this.settle(id);
+                    reject(new Error(options.timeoutMessage || `Timeout waiting for ${method} on ${this.label}`));
+                }, options.timeoutMs);
+            }
+            const signal = options.signal;
+            if (signal) {
+                const onAbort = () => {
+                    if (!this.settle(id)) return;
+                    const reason = cancellationReason(signal);
+                    // Tell the server to stop working on it; late responses are dropped
+                    try {
+                        this.notify("notifications/cancelled", reason ? { requestId: id, reason } : { requestId: id });
+                    } catch { }
+                    reject(new RequestCancelledError(`${method} on ${this.label} cancelled${reason ? `: ${reason}` : ""}`));
+                };
+                signal.addEventListener("abort", onAbort, { once: true });
+                entry.detachSignal = () => signal.removeEventListener("abort", onAbort);
+            }
+            this.pending.set(id, entry);
+
+            const sentParams = withProgressToken(params, id, options);
+            const failed = (err: any) => {
+                if (this.settle(id)) reject(err instanceof Error ? err : new Error(String(err)));
+            };
+            try {
+                this.write(sentParams === undefined ? { jsonrpc: "2.0", id, method } : { jsonrpc: "2.0", id, method, params: sentParams }, failed);
+            } catch (err: any) {
+                failed(err);
+            }
+        });
+    }
+
+    notify(method: string, params?: any): void {
+        if (this.closedError) return;
+        this.write(params === undefined ? { jsonrpc: "2.0", method } : { jsonrpc: "2.0", method, params });
+    }
+
+    onNotification(method: string, handler: NotificationHandler): () => void {
+        let handlers = this.notificationHandlers.get(method);
+        if (!handlers) {
+            handlers = new Set();
+            this.notificationHandlers.set(method, handlers);
+        }
+        handlers.add(handler);
+        return () => handlers!.delete(handler);
+    }
+
+    onRequest(method: string, handler: RequestHandler): void {
+        this.requestHandlers.set(method, handler);
+    }
+
+    onClose(handler: (err: Error) => void): void {
+        if (this.closedError) {
+            handler(this.closedError);
+            return;
+        }
+        this.closeHandlers.add(handler);
+    }
+
+    close(reason: Error = new Error(`Channel to "${this.label}" closed`)): void {
+        if (this.closedError) return;
+        this.closedError = reason;
+
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const entry of pending) {
+            if (entry.timeout) clearTimeout(entry.timeout);
+            entry.detachSignal?.();
+            entry.reject(reason);
+        }
+
+        for (const handler of this.closeHandlers) {
+            try { handler(reason); } catch { }
+        }
+        this.closeHandlers.clear();
+    }
+
+    /** Throws when stdin is already closed; onError sees failures reported later (EPIPE). */
+    private write(msg: any, onError?: (err: Error) => void): void {
+        const stdin = this.child.stdin;
+        if (!stdin || !stdin.writable) {
+            throw new Error(`Server "${this.label}" stdin is not writable`);
+        }
+        stdin.write(JSON.stringify(msg) + "\n", (err) => {
+            if (err) onError?.(err);
+        });
+    }
+
+    private settle(id: number): PendingRequest | undefined {
+        const entry = this.pending.get(id);
+        if (!entry) return undefined;
+        this.pending.delete(id);
+        if (entry.timeout) clearTimeout(entry.timeout);
+        entry.detachSignal?.();
+        return entry;
+    }
+
+    private onData(data: string): void {
+        this.buffer += data;
+        const lines = this.buffer.split("\n");
+        this.buffer = lines.pop() || "";
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            let msg: any;
+            try {
+                msg = JSON.parse(line);
+            } catch {
+                // Non-JSON output (banners, stray logs) is ignored
+                continue;
+            }
+            this.dispatch(msg);
+        }
+    }
+
+    private dispatch(msg: any): void {
+        if (!msg || typeof msg !== "object") return;
+
+        if (typeof msg.method === "string") {
+            if (msg.id !== undefined && msg.id !== null) {
+                this.handleIncomingRequest(msg);
+            } else {
+                this.handleNotification(msg);
+            }
+            return;
+        }
+
+        if (typeof msg.id !== "number") return;
+        const entry = this.settle(msg.id);
+        if (!entry) return;
+
+        if (msg.error) {
+            entry.reject(new JsonRpcError(msg.error.message || `${entry.method} failed`, msg.error.code, msg.error.data));
+        } else {
+            entry.resolve(msg.result);
+        }
+    }
+
+    private handleNotification(msg: any): void {
+        const handlers = this.notificationHandlers.get(msg.method);
+        if (!handlers) return;
+        for (const handler of handlers) {
+            try {
+                handler(msg.params);
+            } catch (err: any) {
+                console.error(`[CodeMode+TOON] ${this.label} notification handler for ${msg.method} failed: ${err?.message || err}`);
+            }
+        }
+    }
+
+    private handleIncomingRequest(msg: any): void {
+        const handler = this.requestHandlers.get(msg.method);
+        const reply = (body: any) => {
+            try {
+                this.write({ jsonrpc: "2.0", id: msg.id, ...body });
+            } catch { }
+        };
+
+        if (!handler) {
+            reply({ error: { code: -32601, message: `Method not found: ${msg.method}` } });
+            return;
+        }
+
+        Promise.resolve()
+            .then(() => handler(msg.params))
+            .then(
+                (result) => reply({ result: result ?? {} }),
+                (err) => reply({ error: { code: -32603, message: err?.message || String(err) } })
+            );
+    }
+}
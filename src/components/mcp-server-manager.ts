@@ -1,12 +1,104 @@
 import { spawn, ChildProcess } from "child_process";
-import { TIMEOUTS } from "../constants.js";
+import { createInterface } from "readline";
+import { TIMEOUTS, LIMITS } from "../constants.js";
+import { matchesAnyGlob, matchesGlob } from "../glob-matcher.js";
 import { MCPServer, ConfigManager } from "./config-manager.js";
 import { PathNormalizer } from "./path-normalizer.js";
+import { cancellationReason, JsonRpcChannel, JsonRpcError, ProgressUpdate, RequestCancelledError, RpcConnection } from "./json-rpc-channel.js";
+import { HttpTransport } from "./http-transport.js";
+import { AuthProvider } from "./auth-provider.js";
+import { PolicyDecision, PolicyDeniedError, PolicyEngine } from "./policy-engine.js";
+import { AuditLog, AuditOutcome, canonicalJson, hashArguments } from "./audit-log.js";
+import { SecretRedactor } from "./secret-redactor.js";
+import { TOONEncoder } from "../toon-encoder.js";
+import { OrchestratorMetrics } from "./metrics.js";
+import { OtlpJsonExporter, Span, Tracer, withTraceContext } from "./tracing.js";
+import { ResultCache } from "./result-cache.js";
+import { CallLimiter } from "./call-limiter.js";
+
+export type ServerState = 'loading' | 'ready' | 'failed' | 'restarting';
+export type ListKind = 'tools' | 'resources' | 'prompts';
+export type ListChangedListener = (server: string, kinds: ListKind[]) => void;
+
+const ALL_LIST_KINDS: ListKind[] = ['tools', 'resources', 'prompts'];
+
+interface ServerTimeouts {
+    handshakeMs: number;
+    listMs: number;
+    callMs: number;
+}
+
+function positiveMs(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export interface MCPResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPPrompt {
+    name: string;
+    description?: string;
+    arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface CallOptions {
+    signal?: AbortSignal;
+    onProgress?: (update: ProgressUpdate) => void;
+    // Called before waiting on the user's confirmation; returns a callback for
+    // when the wait is over (used to stop execution timeouts in the meantime)
+    onAwaitConfirmation?: () => () => void;
+    // Top-level request the call belongs to, for the audit log
+    caller?: { origin: string; sessionId?: string };
+    // Span of the enclosing request; the call's span becomes its child
+    span?: Span;
+    // Called when the result came from the result cache
+    onCacheHit?: () => void;
+    // Overrides the server's tools/call timeout (execute_code's per-call option)
+    timeoutMs?: number;
+    // Set on the replay of a call interrupted by a crash, so it is not replayed again
+    replay?: boolean;
+}
+
+export interface ConfirmationRequest {
+    server: string;
+    tool: string;
+    description?: string;
+    args: any;
+    reason: string;
+    signal?: AbortSignal;
+}
+
+// Resolves true when the user approves the call
+export type ConfirmationHandler = (request: ConfirmationRequest) => Promise<boolean>;
+
+// A downstream tools/call shared by every concurrent caller with the same arguments
+interface InFlightCall {
+    promise: Promise<any>;
+    controller: AbortController;         // aborted once every caller has given up
+    waiters: number;
+    progressListeners: Set<(update: ProgressUpdate) => void>;
+}
 
 export interface LoadedMCPServer {
     name: string;
-    tools: Array<{ name: string; description: string; inputSchema: any }>;
-    call: (toolName: string, args: any) => Promise<any>;
+    tools: Array<{ name: string; description: string; inputSchema: any; annotations?: Record<string, any> }>;
+    resources: MCPResource[];
+    resourceTemplates: MCPResourceTemplate[];
+    prompts: MCPPrompt[];
+    call: (toolName: string, args: any, options?: CallOptions) => Promise<any>;
+    readResource: (uri: string) => Promise<any>;
+    getPrompt: (promptName: string, args?: Record<string, string>) => Promise<any>;
 }
 
 export class MCPServerManager {
@@ -15,10 +107,23 @@ export class MCPServerManager {
 
     private mcpServers: Map<string, LoadedMCPServer> = new Map();
     private lazyServers: Set<string> = new Set();
-    private serverStates: Map<string, 'loading' | 'ready' | 'failed'> = new Map();
+    private serverStates: Map<string, ServerState> = new Map();
     private loadingServers: Map<string, Promise<LoadedMCPServer>> = new Map();
     private childProcesses: Set<ChildProcess> = new Set();
+    private httpTransports: Set<HttpTransport> = new Set();
     private failureCounts: Map<string, number> = new Map();
+    private shuttingDown = false;
+    private listChangedListeners: Set<ListChangedListener> = new Set();
+    private policyEngine?: PolicyEngine;
+    private confirmationHandler?: ConfirmationHandler;
+    private audit?: AuditLog | null;
+    private secretRedactor?: SecretRedactor;
+    private spanTracer?: Tracer;
+    private cache?: ResultCache | null;
+    private limiters: Map<string, CallLimiter | null> = new Map();
+    // Each server's call before policy, audit, cache and limits were layered on
+    private innerCalls: WeakMap<LoadedMCPServer, LoadedMCPServer["call"]> = new WeakMap();
+    readonly metrics = new OrchestratorMetrics();
 
     constructor(
         private configManager: ConfigManager,
@@ -43,17 +148,18 @@ export class MCPServerManager {
                 continue;
             }
 
-            this.serverStates.set(name, "loading");
+            this.setServerState(name, "loading");
 
             const loadPromise = this.loadMCPServer(name, serverConfig)
                 .then((loaded) => {
                     this.mcpServers.set(name, loaded);
-                    this.serverStates.set(name, "ready");
+                    this.setServerState(name, "ready");
                     this.failureCounts.delete(name);
                     console.error(`[CodeMode+TOON] Loaded ${name} (${loaded.tools.length} tools)`);
+                    this.emitListChanged(name, ALL_LIST_KINDS);
                 })
                 .catch((err: any) => {
-                    this.serverStates.set(name, "failed");
+                    this.setServerState(name, "failed");
                     this.failureCounts.set(name, (this.failureCounts.get(name) || 0) + 1);
                     const message = err instanceof Error ? err.message : String(err);
                     console.error(`[CodeMode+TOON] Failed to load ${name}: ${message}`);
@@ -74,20 +180,21 @@ export class MCPServerManager {
         }
     }
 
-    async ensureServerLoaded(name: string): Promise<LoadedMCPServer> {
+    /** parent: span of the request waiting on the load, if this call starts one */
+    async ensureServerLoaded(name: string, parent?: Span): Promise<LoadedMCPServer> {
         if (this.mcpServers.has(name)) {
             return this.mcpServers.get(name)!;
         }
 
         const currentState = this.serverStates.get(name);
-        if (currentState === "loading") {
+        if (currentState === "loading" || currentState === "restarting") {
             const inFlight = this.loadingServers.get(name);
             if (inFlight) return inFlight;
             throw new Error(`Server "${name}" is still loading.`);
         }
         if (currentState === "failed") {
             const failures = this.failureCounts.get(name) || 0;
-            if (failures >= 3) {
+            if (failures >= LIMITS.MAX_SERVER_FAILURES) {
                 throw new Error(`Server "${name}" failed to load earlier (attempts: ${failures}).`);
             }
             // allow retry after failure by clearing state
@@ -102,19 +209,20 @@ export class MCPServerManager {
         const inFlight = this.loadingServers.get(name);
         if (inFlight) return inFlight;
 
-        this.serverStates.set(name, "loading");
+        this.setServerState(name, "loading");
 
-        const loadPromise = this.loadMCPServer(name, config)
+        const loadPromise = this.loadMCPServer(name, config, parent)
             .then((loaded) => {
                 this.mcpServers.set(name, loaded);
                 this.lazyServers.delete(name);
-                this.serverStates.set(name, "ready");
+                this.setServerState(name, "ready");
                 this.failureCounts.delete(name);
                 console.error(`[CodeMode+TOON] loaded ${name} on-demand (${loaded.tools.length} tools)`);
+                this.emitListChanged(name, ALL_LIST_KINDS);
                 return loaded;
             })
             .catch((err) => {
-                this.serverStates.set(name, "failed");
+                this.setServerState(name, "failed");
                 this.failureCounts.set(name, (this.failureCounts.get(name) || 0) + 1);
                 const message = err instanceof Error ? err.message : String(err);
                 console.error(`[CodeMode+TOON] failed to load ${name} on-demand: ${message}`);
@@ -145,6 +253,87 @@ export class MCPServerManager {
         return this.lazyServers;
     }
 
+    /**
+     * Subscribes to changes in the aggregated tool/resource/prompt lists:
+     * servers finishing (re)loads, crashing, or sending list_changed.
+     */
+    onListChanged(listener: ListChangedListener): () => void {
+        this.listChangedListeners.add(listener);
+        return () => this.listChangedListeners.delete(listener);
+    }
+
+    private emitListChanged(name: string, kinds: ListKind[]): void {
+        for (const listener of this.listChangedListeners) {
+            try {
+                listener(name, kinds);
+            } catch (err: any) {
+                console.error(`[CodeMode+TOON] list_changed listener failed: ${err?.message || err}`);
+            }
+        }
+    }
+
+    /** Policy built from the config on first use (the config loads after construction). */
+    get policy(): PolicyEngine {
+        this.policyEngine ??= new PolicyEngine(this.configManager.getPolicy());
+        return this.policyEngine;
+    }
+
+    getToolPolicy(server: string, tool: { name: string; annotations?: Record<string, any> }): PolicyDecision {
+        return this.policy.evaluate(server, tool);
+    }
+
+    /** Redactor that knows every secret in the server configs (built on first use, like policy). */
+    get redactor(): SecretRedactor {
+        if (!this.secretRedactor) {
+            this.secretRedactor = new SecretRedactor(this.configManager.getRedaction());
+            for (const config of Object.values(this.configManager.getMCPServers())) {
+                this.secretRedactor.learnFromServer(config);
+            }
+        }
+        return this.secretRedactor;
+    }
+
+    /** Audit log from the config "audit" section; undefined when auditing is off. */
+    get auditLog(): AuditLog | undefined {
+        if (this.audit === undefined) {
+            const config = this.configManager.getAudit();
+            this.audit = config ? new AuditLog(config.path, config, this.redactor) : null;
+        }
+        return this.audit ?? undefined;
+    }
+
+    /** Result cache from the config "cache" section; undefined when no tool opts in. */
+    get resultCache(): ResultCache | undefined {
+        if (this.cache === undefined) {
+            const config = this.configManager.getCache();
+            this.cache = config ? new ResultCache(config.path, config) : null;
+        }
+        return this.cache ?? undefined;
+    }
+
+    /** Tracer from the config "tracing" section; spans are no-ops when tracing is off. */
+    get tracer(): Tracer {
+        if (!this.spanTracer) {
+            const config = this.configManager.getTracing();
+            this.spanTracer = new Tracer(config ? new OtlpJsonExporter(config, this.redactor) : undefined);
+        }
+        return this.spanTracer;
+    }
+
+    /** Handler used for require-confirmation tools; without one they are denied. */
+    setConfirmationHandler(handler: ConfirmationHandler | undefined): void {
+        this.confirmationHandler = handler;
+    }
+
+    private setServerState(name: string, state: ServerState): void {
+        this.serverStates.set(name, state);
+        this.metrics.recordServerState(name, state);
+    }
+
+    getServerState(name: string): ServerState | undefined {
+        return this.serverStates.get(name);
+    }
+
     getDisabledServers(): string[] {
         return Object.entries(this.configManager.getMCPServers())
             .filter(([_, cfg]) => cfg.disabled)
@@ -153,6 +342,7 @@ export class MCPServerManager {
 
     async shutdown(): Promise<void> {
         console.error("[CodeMode+TOON] Initiating graceful shutdown...");
+        this.shuttingDown = true;
         const shutdownPromises = Array.from(this.childProcesses).map(async (child) => {
             if (child.killed) return;
             try {
@@ -165,191 +355,718 @@ export class MCPServerManager {
             setTimeout(() => { if (!child.killed) child.kill(); }, TIMEOUTS.FORCE_KILL_MS);
         });
         await Promise.all(shutdownPromises);
+        for (const transport of Array.from(this.httpTransports)) {
+            transport.close(new Error("Orchestrator shutting down"));
+        }
+        await this.audit?.flush();
+        await this.spanTracer?.flush();
+        await this.cache?.flush();
         console.error("[CodeMode+TOON] Shutdown complete.");
     }
 
-    private async loadMCPServer(name: string, config: MCPServer): Promise<LoadedMCPServer> {
-        if (config.command) {
-            return await this.loadStdioMCP(name, config);
-        } else if (config.url) {
-            return await this.loadHttpMCP(name, config);
+    private handleServerExit(name: string, reason: Error): void {
+        if (this.shuttingDown || this.loadingServers.has(name)) return;
+
+        const config = this.configManager.getMCPServers()[name];
+        this.mcpServers.delete(name);
+        if (!config || config.disabled) {
+            this.setServerState(name, "failed");
+            return;
         }
-        throw new Error(`Invalid config for ${name}: no command or url`);
-    }
 
-    private isSelfOrchestrator(serverInfo: any): boolean {
-        if (!serverInfo) return false;
-        const nameMatch = serverInfo.name === "code-mode-toon";
-        const vendorMatch = serverInfo.vendor === MCPServerManager.ORCHESTRATOR_VENDOR;
-        const signatureMatch = serverInfo.signature === MCPServerManager.ORCHESTRATOR_SIGNATURE;
-        return (vendorMatch && signatureMatch) || (nameMatch && (vendorMatch || signatureMatch)) || nameMatch;
+        console.error(`[CodeMode+TOON] ${reason.message}. Scheduling restart...`);
+        this.emitListChanged(name, ALL_LIST_KINDS);
+        const restartPromise = this.restartServer(name, config)
+            .finally(() => {
+                this.loadingServers.delete(name);
+            });
+        restartPromise.catch(() => { });
+        this.loadingServers.set(name, restartPromise);
     }
 
-    private async loadHttpMCP(name: string, config: MCPServer): Promise<LoadedMCPServer> {
-        if (!config.url) throw new Error(`Invalid config for ${name}: missing url`);
+    private async restartServer(name: string, config: MCPServer): Promise<LoadedMCPServer> {
+        while (true) {
+            const failures = (this.failureCounts.get(name) || 0) + 1;
+            this.failureCounts.set(name, failures);
+            if (failures > LIMITS.MAX_SERVER_FAILURES) {
+                this.setServerState(name, "failed");
+                console.error(`[CodeMode+TOON] Giving up on ${name} after ${failures} failures`);
+                throw new Error(`Server "${name}" crashed and could not be restarted (restarts: ${failures - 1}).`);
+            }
+
+            this.setServerState(name, "restarting");
+            const backoff = Math.min(
+                TIMEOUTS.RESTART_BACKOFF_BASE_MS * 2 ** (failures - 1),
+                TIMEOUTS.RESTART_BACKOFF_MAX_MS
+            );
+            await new Promise<void>((resolve) => setTimeout(resolve, backoff));
+            if (this.shuttingDown) {
+                throw new Error(`Server "${name}" restart aborted: orchestrator is shutting down`);
+            }
 
-        const send = async (payload: any, timeoutMs = 30000): Promise<any> => {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), timeoutMs);
             try {
-                const response = await fetch(config.url!, {
-                    method: "POST",
-                    headers: { "content-type": "application/json" },
-                    body: JSON.stringify(payload),
-                    signal: controller.signal
+                const loaded = await this.loadMCPServer(name, config);
+                this.mcpServers.set(name, loaded);
+                this.setServerState(name, "ready");
+                console.error(`[CodeMode+TOON] Restarted ${name} after ${backoff}ms backoff (${loaded.tools.length} tools)`);
+                this.emitListChanged(name, ALL_LIST_KINDS);
+                return loaded;
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                console.error(`[CodeMode+TOON] Restart of ${name} failed: ${message}`);
+            }
+        }
+    }
+
+    private isIdempotentTool(name: string, tool: LoadedMCPServer["tools"][number]): boolean {
+        const config = this.configManager.getMCPServers()[name];
+        if (matchesAnyGlob(tool.name, config?.idempotentTools)) return true;
+        return Boolean(tool.annotations?.readOnlyHint || tool.annotations?.idempotentHint);
+    }
+
+    /**
+     * Re-fetches a server's lists when it sends notifications/<kind>/list_changed
+     * and forwards the change to subscribers.
+     */
+    private watchListChanges(name: string, connection: RpcConnection, loaded: LoadedMCPServer, capabilities: any, timeoutMs: number): void {
+        const refresh = async (kind: ListKind) => {
+            if (kind === "tools") {
+                const result = await connection.request("tools/list", undefined, {
+                    timeoutMs,
+                    timeoutMessage: `Timeout listing tools for ${name}`
                 });
-                if (!response.ok) {
-                    const body = await response.text();
-                    throw new Error(`HTTP MCP ${name} request failed (${response.status}): ${body}`);
+                if (!result?.tools) throw new Error(`tools/list returned no tools`);
+                loaded.tools = result.tools;
+            } else {
+                const extras = await this.listServerExtras(name, connection, capabilities, timeoutMs);
+                if (kind === "resources") {
+                    loaded.resources = extras.resources;
+                    loaded.resourceTemplates = extras.resourceTemplates;
+                } else {
+                    loaded.prompts = extras.prompts;
                 }
-                return await response.json() as any;
-            } finally {
-                clearTimeout(timeout);
             }
         };
 
-        const initId = Date.now();
-        const initResponse: any = await send({
-            jsonrpc: "2.0", id: initId, method: "initialize",
-            params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "code-mode-toon", version: "1.0.0" } }
-        });
+        for (const kind of ALL_LIST_KINDS) {
+            connection.onNotification(`notifications/${kind}/list_changed`, () => {
+                refresh(kind)
+                    .then(() => {
+                        if (this.mcpServers.get(name) !== loaded) return;
+                        console.error(`[CodeMode+TOON] ${name} ${kind} list changed`);
+                        this.emitListChanged(name, [kind]);
+                    })
+                    .catch((err) => {
+                        console.error(`[CodeMode+TOON] Failed to refresh ${kind} for ${name}: ${err instanceof Error ? err.message : err}`);
+                    });
+            });
+        }
+    }
+
+    private async paginate<T>(name: string, connection: RpcConnection, method: string, key: string, timeoutMs: number): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await connection.request(method, cursor ? { cursor } : {}, {
+                timeoutMs,
+                timeoutMessage: `Timeout during ${method} for ${name}`
+            });
+            items.push(...(page?.[key] || []));
+            cursor = page?.nextCursor;
+        } while (cursor);
+        return items;
+    }
+
+    /**
+     * Lists resources, resource templates and prompts for servers that
+     * advertise them. Failures are logged, not fatal: tools still load.
+     */
+    private async listServerExtras(
+        name: string,
+        connection: RpcConnection,
+        capabilities: any,
+        timeoutMs: number
+    ): Promise<{ resources: MCPResource[]; resourceTemplates: MCPResourceTemplate[]; prompts: MCPPrompt[] }> {
+        const logFailure = (method: string) => (err: any) => {
+            console.error(`[CodeMode+TOON] ${name} ${method} failed: ${err instanceof Error ? err.message : err}`);
+            return [];
+        };
+
+        const [resources, resourceTemplates, prompts] = await Promise.all([
+            capabilities?.resources
+                ? this.paginate<MCPResource>(name, connection, "resources/list", "resources", timeoutMs).catch(logFailure("resources/list"))
+                : [],
+            capabilities?.resources
+                // Templates are optional even for servers with the resources capability
+                ? this.paginate<MCPResourceTemplate>(name, connection, "resources/templates/list", "resourceTemplates", timeoutMs).catch(() => [])
+                : [],
+            capabilities?.prompts
+                ? this.paginate<MCPPrompt>(name, connection, "prompts/list", "prompts", timeoutMs).catch(logFailure("prompts/list"))
+                : []
+        ]);
+        return { resources, resourceTemplates, prompts };
+    }
 
-        if (this.isSelfOrchestrator(initResponse?.result?.serverInfo)) {
-            throw new Error(`Self-referential server "${name}" detected via MCP handshake`);
+    private async getPrompt(name: string, connection: RpcConnection, capabilities: any, promptName: string, args: Record<string, string> | undefined, timeoutMs: number): Promise<any> {
+        if (!capabilities?.prompts) {
+            throw new Error(`Server "${name}" does not expose prompts`);
         }
+        try {
+            return await connection.request("prompts/get", { name: promptName, arguments: args || {} }, {
+                timeoutMs,
+                timeoutMessage: `Timeout getting prompt ${promptName} from ${name}`
+            });
+        } catch (err) {
+            if (err instanceof JsonRpcError) {
+                throw new Error(`MCP ${name} prompt error (${promptName}): ${err.message}`);
+            }
+            throw err;
+        }
+    }
 
-        const listResponse: any = await send({ jsonrpc: "2.0", id: initId + 1, method: "tools/list" });
-        if (!listResponse?.result?.tools) {
-            throw new Error(`HTTP MCP ${name} tools/list failed`);
+    private async readResource(name: string, connection: RpcConnection, capabilities: any, uri: string, timeoutMs: number): Promise<any> {
+        if (!capabilities?.resources) {
+            throw new Error(`Server "${name}" does not expose resources`);
         }
+        try {
+            return await connection.request("resources/read", { uri }, {
+                timeoutMs,
+                timeoutMessage: `Timeout reading resource ${uri} from ${name}`
+            });
+        } catch (err) {
+            if (err instanceof JsonRpcError) {
+                throw new Error(`MCP ${name} resource error (${uri}): ${err.message}`);
+            }
+            throw err;
+        }
+    }
 
-        return {
-            name,
-            tools: listResponse.result.tools,
-            call: async (toolName: string, args: any) => {
-                const result: any = await send({
-                    jsonrpc: "2.0", id: Date.now(), method: "tools/call",
-                    params: { name: toolName, arguments: this.pathNormalizer.normalizeArguments(args) }
-                });
-                if (result?.error) throw new Error(`HTTP MCP ${name} tool error: ${result.error.message}`);
-                if (!result?.result) throw new Error(`HTTP MCP ${name} tool call missing result`);
-                return result.result;
+    private async loadMCPServer(name: string, config: MCPServer, parent?: Span): Promise<LoadedMCPServer> {
+        const started = Date.now();
+        const span = this.tracer.startSpan(`load ${name}`, {
+            parent,
+            attributes: { "mcp.server.name": name, "mcp.transport": config.command ? "stdio" : "http" }
+        });
+        const observe = (outcome: string) => {
+            this.metrics.serverLoadSeconds.observe({ server: name, outcome }, (Date.now() - started) / 1000);
+        };
+        try {
+            let loaded: LoadedMCPServer;
+            if (config.command) {
+                loaded = await this.loadStdioMCP(name, config);
+            } else if (config.url) {
+                loaded = await this.loadHttpMCP(name, config);
+            } else {
+                throw new Error(`Invalid config for ${name}: no command or url`);
             }
+            observe("ok");
+            span.setAttribute("mcp.tools.count", loaded.tools.length).setOk();
+            this.innerCalls.set(loaded, loaded.call);
+            return this.recordCalls(this.enforcePolicy(this.cacheResults(this.coalesceCalls(this.limitCalls(loaded)))));
+        } catch (err) {
+            observe("error");
+            span.setError(err);
+            throw err;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Guards every tools/call on a loaded server with the configured policy, so
+     * the sandbox and workflows go through the same check.
+     */
+    private enforcePolicy(loaded: LoadedMCPServer): LoadedMCPServer {
+        const call = loaded.call;
+        loaded.call = async (toolName: string, args: any, options: CallOptions = {}) => {
+            const tool = loaded.tools.find((t) => t.name === toolName) ?? { name: toolName };
+            const decision = this.policy.evaluate(loaded.name, tool);
+            if (decision.effect === "deny") {
+                throw new PolicyDeniedError(loaded.name, toolName, decision);
+            }
+            if (decision.effect === "confirm") {
+                await this.confirmCall(loaded.name, tool, args, decision, options);
+            }
+            return call(toolName, args, options);
         };
+        return loaded;
     }
 
-    private async loadStdioMCP(name: string, config: MCPServer): Promise<LoadedMCPServer> {
-        const start = Date.now();
-        console.error(`[CodeMode+TOON] Starting ${name}...`);
+    /** Limiter for a server's maxConcurrency/rateLimit; shared across restarts. */
+    private limiterFor(name: string): CallLimiter | undefined {
+        if (!this.limiters.has(name)) {
+            const config = this.configManager.getMCPServers()[name];
+            let maxConcurrency = config?.maxConcurrency;
+            let rateLimit = config?.rateLimit;
+            if (maxConcurrency !== undefined && !(Number.isInteger(maxConcurrency) && maxConcurrency > 0)) {
+                console.error(`[CodeMode+TOON] Ignoring maxConcurrency for ${name}: expected a positive integer, got ${JSON.stringify(maxConcurrency)}`);
+                maxConcurrency = undefined;
+            }
+            // A non-number here would make the token bucket NaN and its refill timer spin
+            const positive = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value > 0;
+            if (rateLimit !== undefined && !(positive(rateLimit?.requests) && positive(rateLimit.perSeconds ?? 1) && positive(rateLimit.burst ?? 1))) {
+                console.error(`[CodeMode+TOON] Ignoring rateLimit for ${name}: expected { "requests": >0, "perSeconds"?: >0, "burst"?: >0 }, got ${JSON.stringify(rateLimit)}`);
+                rateLimit = undefined;
+            }
+            this.limiters.set(name, maxConcurrency || rateLimit ? new CallLimiter(maxConcurrency, rateLimit) : null);
+        }
+        return this.limiters.get(name) ?? undefined;
+    }
 
-        const child = spawn(config.command!, config.args || [], {
-            stdio: ["pipe", "pipe", "inherit"],
-            env: { ...process.env, ...config.env },
-            cwd: this.configManager.getProjectRoot(),
-        });
+    /**
+     * Queues tools/call requests beyond the server's maxConcurrency or
+     * rateLimit. Time spent queued is observed in metrics and appended to
+     * errors, so slow calls can be told apart from throttled ones.
+     */
+    private limitCalls(loaded: LoadedMCPServer): LoadedMCPServer {
+        const limiter = this.limiterFor(loaded.name);
+        if (!limiter) return loaded;
+        const call = loaded.call;
+        const server = loaded.name;
+        loaded.call = async (toolName: string, args: any, options: CallOptions = {}) => {
+            let permit;
+            try {
+                const queued = limiter.acquire(options.signal, `tools/call ${toolName} on ${server}`);
+                this.metrics.queuedCalls.set({ server }, limiter.pending);
+                permit = await queued;
+            } finally {
+                this.metrics.queuedCalls.set({ server }, limiter.pending);
+            }
+            this.metrics.queueWaitSeconds.observe({ server }, permit.waitedMs / 1000);
+            options.span?.setAttribute("codemode.queue.wait_ms", permit.waitedMs);
+            try {
+                return await call(toolName, args, options);
+            } catch (err) {
+                if (permit.waitedMs > 0 && err instanceof Error) {
+                    err.message += ` (after waiting ${permit.waitedMs}ms for ${server}'s maxConcurrency/rateLimit)`;
+                }
+                throw err;
+            } finally {
+                permit.release();
+            }
+        };
+        return loaded;
+    }
 
-        this.childProcesses.add(child);
-        child.on('exit', () => this.childProcesses.delete(child));
+    /**
+     * Sends concurrent identical calls (same tool, same canonical arguments)
+     * downstream once and gives every caller the result. Tools matching the
+     * server's noCoalesceTools always get a request of their own.
+     */
+    private coalesceCalls(loaded: LoadedMCPServer): LoadedMCPServer {
+        const inFlight: Map<string, InFlightCall> = new Map();
+        const call = loaded.call;
+        loaded.call = async (toolName: string, args: any, options: CallOptions = {}) => {
+            const config = this.configManager.getMCPServers()[loaded.name];
+            if (matchesAnyGlob(toolName, config?.noCoalesceTools)) return call(toolName, args, options);
 
-        const send = (msg: any) => {
-            if (child.stdin && child.stdin.writable) child.stdin.write(JSON.stringify(msg) + "\n");
+            // Callers with different timeouts must not inherit the leader's
+            const key = `${toolName}\u0000${options.timeoutMs ?? ""}\u0000${canonicalJson(args ?? {})}`;
+            let shared = inFlight.get(key);
+            const leader = !shared;
+            if (shared) {
+                this.metrics.coalescedCalls.inc({ server: loaded.name, tool: toolName });
+                options.span?.setAttribute("codemode.coalesced", true);
+            } else {
+                const controller = new AbortController();
+                const progressListeners: Set<(update: ProgressUpdate) => void> = new Set();
+                const promise = call(toolName, args, {
+                    ...options,
+                    signal: controller.signal,
+                    onProgress: options.onProgress && ((update) => progressListeners.forEach((listener) => listener(update)))
+                }).finally(() => inFlight.delete(key));
+                shared = { promise, controller, waiters: 0, progressListeners };
+                inFlight.set(key, shared);
+            }
+            const result = await this.awaitSharedCall(shared, `tools/call ${toolName} on ${loaded.name}`, options);
+            // Followers get their own copy so no caller sees another's mutations
+            return leader ? result : structuredClone(result);
         };
+        return loaded;
+    }
 
+    private awaitSharedCall(shared: InFlightCall, label: string, options: CallOptions): Promise<any> {
+        const { signal, onProgress } = options;
         return new Promise((resolve, reject) => {
-            let buffer = "";
-            let timeout = setTimeout(() => reject(new Error(`Timeout during initialize handshake for ${name}`)), TIMEOUTS.HANDSHAKE_TIMEOUT_MS);
-            let initialized = false;
-            const initId = 1;
-
-            send({
-                jsonrpc: "2.0", id: initId, method: "initialize",
-                params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "code-mode-toon", version: "1.0.0" } }
+            let attached = true;
+            const detach = () => {
+                if (!attached) return false;
+                attached = false;
+                signal?.removeEventListener("abort", onAbort);
+                if (onProgress) shared.progressListeners.delete(onProgress);
+                shared.waiters--;
+                return true;
+            };
+            const onAbort = () => {
+                if (!detach()) return;
+                // The downstream request is cancelled once nobody is waiting for it
+                if (shared.waiters === 0) shared.controller.abort(signal!.reason);
+                const reason = cancellationReason(signal!);
+                reject(new RequestCancelledError(`${label} cancelled${reason ? `: ${reason}` : ""}`));
+            };
+
+            shared.waiters++;
+            if (onProgress) shared.progressListeners.add(onProgress);
+            if (signal?.aborted) return onAbort();
+            signal?.addEventListener("abort", onAbort, { once: true });
+            shared.promise.then(
+                (result) => { if (detach()) resolve(result); },
+                (err) => { if (detach()) reject(err); }
+            );
+        });
+    }
+
+    /**
+     * Serves opted-in tools from the result cache. Sits inside enforcePolicy,
+     * so cached results are only returned to calls the policy allows.
+     */
+    private cacheResults(loaded: LoadedMCPServer): LoadedMCPServer {
+        const cache = this.resultCache;
+        if (!cache) return loaded;
+        const call = loaded.call;
+        loaded.call = async (toolName: string, args: any, options: CallOptions = {}) => {
+            if (!cache.ruleFor(loaded.name, toolName)) return call(toolName, args, options);
+            const cached = await cache.get(loaded.name, toolName, args);
+            this.metrics.cacheLookups.inc({ server: loaded.name, tool: toolName, result: cached === undefined ? "miss" : "hit" });
+            options.span?.setAttribute("codemode.cache.hit", cached !== undefined);
+            if (cached !== undefined) {
+                options.onCacheHit?.();
+                return cached;
+            }
+            const result = await call(toolName, args, options);
+            await cache.set(loaded.name, toolName, args, result);
+            return result;
+        };
+        return loaded;
+    }
+
+    /**
+     * Records metrics, a client span and (when enabled) one audit entry per
+     * tools/call, including calls the policy blocked. Wraps enforcePolicy so
+     * denials are counted too.
+     */
+    private recordCalls(loaded: LoadedMCPServer): LoadedMCPServer {
+        const audit = this.auditLog;
+        const logArguments = this.configManager.getAudit()?.logArguments === true;
+        const call = loaded.call;
+        loaded.call = async (toolName: string, args: any, options: CallOptions = {}) => {
+            const started = Date.now();
+            const span = this.tracer.startSpan(`tools/call ${loaded.name}.${toolName}`, {
+                kind: "client",
+                parent: options.span,
+                attributes: {
+                    "mcp.method.name": "tools/call",
+                    "mcp.server.name": loaded.name,
+                    "mcp.tool.name": toolName,
+                    "mcp.request.bytes": JSON.stringify(args ?? {}).length
+                }
             });
+            const entry = {
+                timestamp: new Date(started).toISOString(),
+                origin: options.caller?.origin ?? "direct",
+                sessionId: options.caller?.sessionId,
+                server: loaded.name,
+                tool: toolName,
+                argsHash: hashArguments(args),
+                args: logArguments ? args : undefined
+            };
+            const observe = (outcome: AuditOutcome) => {
+                const durationMs = Date.now() - started;
+                this.metrics.toolCalls.inc({ server: loaded.name, tool: toolName, outcome });
+                this.metrics.toolCallSeconds.observe({ server: loaded.name, tool: toolName }, durationMs / 1000);
+                span.setAttribute("codemode.outcome", outcome);
+                return durationMs;
+            };
+            try {
+                const result = await call(toolName, args, { ...options, span });
+                const outcome = result?.isError ? "error" : "ok";
+                const durationMs = observe(outcome);
+                const jsonBytes = JSON.stringify(result ?? null).length;
+                span.setAttribute("mcp.response.bytes", jsonBytes);
+                if (result?.isError) span.setError("tool returned isError");
+                else span.setOk();
+                audit?.record({
+                    ...entry,
+                    durationMs,
+                    outcome,
+                    jsonBytes,
+                    toonBytes: TOONEncoder.encode(result ?? null).length
+                });
+                return result;
+            } catch (err: any) {
+                const outcome: AuditOutcome = err instanceof PolicyDeniedError
+                    ? "denied"
+                    : err instanceof RequestCancelledError || options.signal?.aborted ? "cancelled" : "error";
+                const durationMs = observe(outcome);
+                span.setError(err);
+                audit?.record({ ...entry, durationMs, outcome, error: err?.message ?? String(err) });
+                throw err;
+            } finally {
+                span.end();
+            }
+        };
+        return loaded;
+    }
+
+    private async confirmCall(
+        server: string,
+        tool: { name: string; description?: string },
+        args: any,
+        decision: PolicyDecision,
+        options: CallOptions
+    ): Promise<void> {
+        const handler = this.confirmationHandler;
+        if (!handler) {
+            throw new PolicyDeniedError(server, tool.name, { ...decision, reason: `${decision.reason}, and no confirmation channel is available` });
+        }
+
+        const resume = options.onAwaitConfirmation?.();
+        let approved: boolean;
+        try {
+            approved = await handler({
+                server,
+                tool: tool.name,
+                description: tool.description,
+                args,
+                reason: decision.reason,
+                signal: options.signal
+            });
+        } catch (err: any) {
+            if (options.signal?.aborted) throw err;
+            throw new PolicyDeniedError(server, tool.name, { ...decision, reason: `${decision.reason}, and confirmation failed: ${err?.message || err}` });
+        } finally {
+            resume?.();
+        }
+        if (!approved) {
+            throw new PolicyDeniedError(server, tool.name, { ...decision, reason: `${decision.reason}, and the user declined` }, true);
+        }
+    }
+
+    /** The server's "timeouts" config over the TIMEOUTS defaults for its transport. */
+    private serverTimeouts(name: string, config: MCPServer): ServerTimeouts {
+        const defaults: ServerTimeouts = config.command
+            ? { handshakeMs: TIMEOUTS.HANDSHAKE_TIMEOUT_MS, listMs: TIMEOUTS.TOOLS_LIST_TIMEOUT_MS, callMs: TIMEOUTS.TOOL_CALL_TIMEOUT_MS }
+            : { handshakeMs: TIMEOUTS.HTTP_REQUEST_TIMEOUT_MS, listMs: TIMEOUTS.HTTP_REQUEST_TIMEOUT_MS, callMs: TIMEOUTS.HTTP_REQUEST_TIMEOUT_MS };
+        const timeouts = { ...defaults };
+        for (const key of Object.keys(defaults) as Array<keyof ServerTimeouts>) {
+            const value = config.timeouts?.[key];
+            if (value === undefined) continue;
+            if (positiveMs(value)) timeouts[key] = value;
+            else console.error(`[CodeMode+TOON] Ignoring timeouts.${key} for ${name}: expected a positive number of milliseconds, got ${JSON.stringify(value)}`);
+        }
+        return timeouts;
+    }
+
+    /** Per-call option, then the first matching "timeouts.tools" glob, then the server's callMs. */
+    private callTimeoutMs(config: MCPServer, timeouts: ServerTimeouts, toolName: string, options: CallOptions): number {
+        const requested = positiveMs(options.timeoutMs);
+        if (requested) return requested;
+        for (const [glob, value] of Object.entries(config.timeouts?.tools || {})) {
+            if (matchesGlob(toolName, glob) && positiveMs(value)) return value;
+        }
+        return timeouts.callMs;
+    }
+
+    private isSelfOrchestrator(serverInfo: any): boolean {
+        if (!serverInfo) return false;
+        const nameMatch = serverInfo.name === "code-mode-toon";
+        const vendorMatch = serverInfo.vendor === MCPServerManager.ORCHESTRATOR_VENDOR;
+        const signatureMatch = serverInfo.signature === MCPServerManager.ORCHESTRATOR_SIGNATURE;
+        return (vendorMatch && signatureMatch) || (nameMatch && (vendorMatch || signatureMatch)) || nameMatch;
+    }
+
+    private async loadHttpMCP(name: string, config: MCPServer): Promise<LoadedMCPServer> {
+        if (!config.url) throw new Error(`Invalid config for ${name}: missing url`);
+
+        const start = Date.now();
+        const timeouts = this.serverTimeouts(name, config);
+        const transport = new HttpTransport(config.url, name, new AuthProvider(name, config.headers, config.auth, (token) => this.redactor.learn(token)));
+        this.httpTransports.add(transport);
+        transport.onClose(() => this.httpTransports.delete(transport));
+
+        try {
+            const initResult = await transport.initialize(
+                { name: "code-mode-toon", version: "1.0.0" },
+                { timeoutMs: timeouts.handshakeMs, timeoutMessage: `Timeout during initialize handshake for ${name}` }
+            );
+
+            if (this.isSelfOrchestrator(initResult?.serverInfo)) {
+                throw new Error(`Self-referential server "${name}" detected via MCP handshake`);
+            }
 
-            child.on("error", (err) => {
-                clearTimeout(timeout);
-                reject(new Error(`Failed to spawn ${name}: ${err.message}`));
+            transport.notify("notifications/initialized");
+            const listResult = await transport.request("tools/list", undefined, {
+                timeoutMs: timeouts.listMs,
+                timeoutMessage: `Timeout listing tools for ${name}`
             });
+            if (!listResult?.tools) {
+                throw new Error(`HTTP MCP ${name} tools/list failed`);
+            }
+
+            const capabilities = initResult?.capabilities;
+            const { resources, resourceTemplates, prompts } = await this.listServerExtras(name, transport, capabilities, timeouts.listMs);
 
-            child.stdout.on("data", (data) => {
-                buffer += data.toString();
-                const lines = buffer.split("\n");
-                buffer = lines.pop() || "";
+            const duration = Date.now() - start;
+            console.error(`[CodeMode+TOON] Connected to ${name} over ${transport.mode} in ${duration}ms (${listResult.tools.length} tools)`);
 
-                for (const line of lines) {
-                    if (!line.trim()) continue;
+            const loaded: LoadedMCPServer = {
+                name,
+                tools: listResult.tools,
+                resources,
+                resourceTemplates,
+                prompts,
+                readResource: (uri: string) => this.readResource(name, transport, capabilities, uri, timeouts.callMs),
+                getPrompt: (promptName: string, args?: Record<string, string>) =>
+                    this.getPrompt(name, transport, capabilities, promptName, args, timeouts.callMs),
+                call: async (toolName: string, args: any, options: CallOptions = {}) => {
+                    const timeoutMs = this.callTimeoutMs(config, timeouts, toolName, options);
                     try {
-                        const msg = JSON.parse(line);
-                        if (!initialized && msg.id === initId && msg.result) {
-                            if (this.isSelfOrchestrator(msg.result.serverInfo)) {
-                                clearTimeout(timeout);
-                                child.kill();
-                                reject(new Error(`Self-referential server "${name}" detected`));
-                                return;
-                            }
-                            initialized = true;
-                            clearTimeout(timeout);
-                            timeout = setTimeout(() => reject(new Error(`Timeout listing tools for ${name}`)), TIMEOUTS.TOOLS_LIST_TIMEOUT_MS);
-                            send({ jsonrpc: "2.0", method: "notifications/initialized" });
-                            send({ jsonrpc: "2.0", id: 2, method: "tools/list" });
-                        } else if (msg.id === 2 && msg.result?.tools) {
-                            clearTimeout(timeout);
-                            const duration = Date.now() - start;
-                            console.error(`[CodeMode+TOON] Connected to ${name} in ${duration}ms (${msg.result.tools.length} tools)`);
-                            resolve({
-                                name,
-                                tools: msg.result.tools,
-                                call: async (toolName: string, args: any) => {
-                                    return await this.callStdioMCP(child, toolName, args);
-                                }
-                            });
+                        const result = await transport.request("tools/call", withTraceContext({
+                            name: toolName, arguments: this.pathNormalizer.normalizeArguments(args)
+                        }, options.span), {
+                            timeoutMs,
+                            timeoutMessage: `Tool timeout: ${toolName} (${timeoutMs}ms)`,
+                            signal: options.signal,
+                            onProgress: options.onProgress
+                        });
+                        if (!result) throw new Error(`HTTP MCP ${name} tool call missing result`);
+                        return result;
+                    } catch (err) {
+                        if (err instanceof JsonRpcError) {
+                            throw new Error(`HTTP MCP ${name} tool error: ${err.message}`);
                         }
-                    } catch { }
+                        throw err;
+                    }
                 }
+            };
+
+            this.watchListChanges(name, transport, loaded, capabilities, timeouts.listMs);
+            // A transport that gave up (e.g. its session could not be renewed) leaves
+            // the server unloaded, so the next use reconnects instead of failing forever
+            transport.onClose((reason) => {
+                if (this.shuttingDown || this.mcpServers.get(name) !== loaded) return;
+                console.error(`[CodeMode+TOON] ${reason.message}. Reconnecting on next use`);
+                this.mcpServers.delete(name);
+                this.lazyServers.add(name);
+                this.emitListChanged(name, ALL_LIST_KINDS);
             });
-        });
+            if (["tools", "resources", "prompts"].some((kind) => capabilities?.[kind]?.listChanged)) {
+                transport.openNotificationStream();
+            }
+            return loaded;
+        } catch (err) {
+            transport.close(err instanceof Error ? err : new Error(String(err)));
+            throw err;
+        }
     }
 
-    private async callStdioMCP(child: any, toolName: string, args: any): Promise<any> {
-        const id = Date.now();
-        const request = JSON.stringify({
-            jsonrpc: "2.0", id, method: "tools/call",
-            params: { name: toolName, arguments: args }
-        }) + "\n";
+    private async loadStdioMCP(name: string, config: MCPServer): Promise<LoadedMCPServer> {
+        const start = Date.now();
+        const timeouts = this.serverTimeouts(name, config);
+        console.error(`[CodeMode+TOON] Starting ${name}...`);
 
-        child.stdin.write(request);
+        const child = spawn(config.command!, config.args || [], {
+            stdio: ["pipe", "pipe", "pipe"],
+            env: { ...process.env, ...config.env },
+            cwd: this.configManager.getProjectRoot(),
+        });
 
-        return new Promise((resolve, reject) => {
-            let buffer = "";
-            const timeout = setTimeout(() => reject(new Error(`Tool timeout: ${toolName}`)), TIMEOUTS.TOOL_CALL_TIMEOUT_MS);
+        this.childProcesses.add(child);
+        child.on('exit', () => this.childProcesses.delete(child));
+        // Relayed line by line so secrets a server echoes (e.g. its own argv) are masked
+        createInterface({ input: child.stderr! }).on("line", (line) => {
+            process.stderr.write(this.redactor.redact(line) + "\n");
+        });
+
+        const channel = new JsonRpcChannel(child, name);
+        const spawnError = new Promise<never>((_, reject) => {
+            child.once("error", (err) => reject(new Error(`Failed to spawn ${name}: ${err.message}`)));
+        });
+        spawnError.catch(() => { });
 
-            const onData = (data: Buffer) => {
-                buffer += data.toString();
-                const lines = buffer.split("\n");
-                buffer = lines.pop() || "";
+        try {
+            const initResult = await Promise.race([
+                channel.request("initialize", {
+                    protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "code-mode-toon", version: "1.0.0" }
+                }, {
+                    timeoutMs: timeouts.handshakeMs,
+                    timeoutMessage: `Timeout during initialize handshake for ${name}`
+                }),
+                spawnError
+            ]);
 
-                for (const line of lines) {
-                    if (!line.trim()) continue;
+            if (this.isSelfOrchestrator(initResult?.serverInfo)) {
+                throw new Error(`Self-referential server "${name}" detected`);
+            }
+
+            channel.notify("notifications/initialized");
+            const listResult = await channel.request("tools/list", undefined, {
+                timeoutMs: timeouts.listMs,
+                timeoutMessage: `Timeout listing tools for ${name}`
+            });
+            if (!listResult?.tools) {
+                throw new Error(`STDIO MCP ${name} tools/list failed`);
+            }
+
+            const capabilities = initResult?.capabilities;
+            const { resources, resourceTemplates, prompts } = await this.listServerExtras(name, channel, capabilities, timeouts.listMs);
+
+            const duration = Date.now() - start;
+            console.error(`[CodeMode+TOON] Connected to ${name} in ${duration}ms (${listResult.tools.length} tools)`);
+            channel.onClose((reason) => this.handleServerExit(name, reason));
+
+            const loaded: LoadedMCPServer = {
+                name,
+                tools: listResult.tools,
+                resources,
+                resourceTemplates,
+                prompts,
+                readResource: (uri: string) => this.readResource(name, channel, capabilities, uri, timeouts.callMs),
+                getPrompt: (promptName: string, args?: Record<string, string>) =>
+                    this.getPrompt(name, channel, capabilities, promptName, args, timeouts.callMs),
+                call: async (toolName: string, args: any, options: CallOptions = {}) => {
                     try {
-                        const msg = JSON.parse(line);
-                        if (msg.id === id) {
-                            if (msg.result) {
-                                clearTimeout(timeout);
-                                child.stdout.off("data", onData);
-                                resolve(msg.result);
-                                return;
-                            }
-                            if (msg.error) {
-                                clearTimeout(timeout);
-                                child.stdout.off("data", onData);
-                                reject(new Error(`STDIO MCP tool error (${toolName}): ${msg.error.message}`));
-                                return;
-                            }
-                        }
-                    } catch { }
+                        const timeoutMs = this.callTimeoutMs(config, timeouts, toolName, options);
+                        const result = await this.callStdioMCP(channel, toolName, args, options, timeoutMs);
+                        this.failureCounts.delete(name);
+                        return result;
+                    } catch (err) {
+                        const tool = loaded.tools.find((t) => t.name === toolName);
+                        if (!channel.closed || this.shuttingDown || options.signal?.aborted || options.replay) throw err;
+                        if (!tool || !this.isIdempotentTool(name, tool)) throw err;
+                        // The child died mid-call; wait for the restart and replay the call once.
+                        // The replay skips the wrappers: the original call was already
+                        // authorized, audited and holds its concurrency slot.
+                        console.error(`[CodeMode+TOON] Retrying ${name}.${toolName} after server restart`);
+                        const restarted = await this.ensureServerLoaded(name, options.span);
+                        const inner = this.innerCalls.get(restarted) ?? restarted.call;
+                        return await inner(toolName, args, { ...options, replay: true });
+                    }
                 }
             };
-            child.stdout.on("data", onData);
-        });
+
+            this.watchListChanges(name, channel, loaded, capabilities, timeouts.listMs);
+            return loaded;
+        } catch (err) {
+            channel.close(err instanceof Error ? err : new Error(String(err)));
+            if (!child.killed) child.kill();
+            throw err;
+        }
+    }
+
+    private async callStdioMCP(channel: JsonRpcChannel, toolName: string, args: any, options: CallOptions, timeoutMs: number): Promise<any> {
+        try {
+            return await channel.request("tools/call", withTraceContext({ name: toolName, arguments: args }, options.span), {
+                timeoutMs,
+                timeoutMessage: `Tool timeout: ${toolName} (${timeoutMs}ms)`,
+                signal: options.signal,
+                onProgress: options.onProgress
+            });
+        } catch (err) {
+            if (err instanceof JsonRpcError) {
+                throw new Error(`STDIO MCP tool error (${toolName}): ${err.message}`);
+            }
+            throw err;
+        }
     }
 }
@@ -0,0 +1,208 @@
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { matchesGlob } from "../glob-matcher.js";
+
+// In-process Prometheus-style metrics: counters, gauges and histograms with
+// labels, rendered in the text exposition format for /metrics and get_metrics.
+
+export type Labels = Record<string, string>;
+
+export interface MetricSample {
+    name: string;
+    labels: Labels;
+    value: number;
+}
+
+// Seconds; spans quick tool calls through the 60s execute_code limit
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (!entries.length) return "";
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return "+Inf";
+    return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(6)));
+}
+
+abstract class Metric {
+    abstract readonly type: "counter" | "gauge" | "histogram";
+
+    constructor(readonly name: string, readonly help: string) { }
+
+    abstract samples(): MetricSample[];
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+        for (const sample of this.samples()) {
+            lines.push(`${sample.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+        return lines.join("\n");
+    }
+}
+
+export class Counter extends Metric {
+    readonly type = "counter";
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    inc(labels: Labels = {}, amount = 1): void {
+        if (!(amount >= 0)) return;    // counters only go up
+        const key = labelKey(labels);
+        const entry = this.values.get(key);
+        if (entry) entry.value += amount;
+        else this.values.set(key, { labels: { ...labels }, value: amount });
+    }
+
+    samples(): MetricSample[] {
+        return Array.from(this.values.values()).map(({ labels, value }) => ({ name: this.name, labels, value }));
+    }
+}
+
+export class Gauge extends Metric {
+    readonly type = "gauge";
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), { labels: { ...labels }, value });
+    }
+
+    samples(): MetricSample[] {
+        return Array.from(this.values.values()).map(({ labels, value }) => ({ name: this.name, labels, value }));
+    }
+}
+
+export class Histogram extends Metric {
+    readonly type = "histogram";
+    private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+        super(name, help);
+    }
+
+    observe(labels: Labels, value: number): void {
+        if (!Number.isFinite(value)) return;
+        const key = labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) entry!.counts[index]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    samples(): MetricSample[] {
+        const samples: MetricSample[] = [];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, index) => {
+                samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: formatValue(bound) }, value: counts[index] });
+            });
+            samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: "+Inf" }, value: count });
+            samples.push({ name: `${this.name}_sum`, labels, value: sum });
+            samples.push({ name: `${this.name}_count`, labels, value: count });
+        }
+        return samples;
+    }
+}
+
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    samples(filter?: string): MetricSample[] {
+        return this.select(filter).flatMap((metric) => metric.samples());
+    }
+
+    /** Prometheus text exposition format (version 0.0.4). */
+    render(filter?: string): string {
+        return this.select(filter).map((metric) => metric.render()).join("\n") + "\n";
+    }
+
+    // filter is a metric name glob
+    private select(filter?: string): Metric[] {
+        return filter ? this.metrics.filter((metric) => matchesGlob(metric.name, filter)) : this.metrics;
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+/** The orchestrator's instruments; one instance per MCPServerManager. */
+export class OrchestratorMetrics {
+    readonly registry = new MetricsRegistry();
+
+    readonly serverLoadSeconds = this.registry.histogram("codemode_server_load_seconds", "Time to start and initialize a downstream server, by outcome");
+    readonly serverStateTransitions = this.registry.counter("codemode_server_state_transitions_total", "Downstream server state changes, by new state");
+    readonly serverState = this.registry.gauge("codemode_server_state", "1 for each server's current state (loading, ready, failed, restarting)");
+    readonly toolCalls = this.registry.counter("codemode_tool_calls_total", "Downstream tool calls, by server, tool and outcome");
+    readonly toolCallSeconds = this.registry.histogram("codemode_tool_call_duration_seconds", "Downstream tool call latency");
+    readonly executeCodeSeconds = this.registry.histogram("codemode_execute_code_duration_seconds", "execute_code run time, by outcome");
+    readonly queueWaitSeconds = this.registry.histogram("codemode_queue_wait_seconds", "Time tool calls waited for a server's maxConcurrency/rateLimit");
+    readonly queuedCalls = this.registry.gauge("codemode_queued_calls", "Tool calls currently waiting for a server's maxConcurrency/rateLimit");
+    readonly coalescedCalls = this.registry.counter("codemode_coalesced_calls_total", "Tool calls that shared an identical in-flight downstream request, by server and tool");
+    readonly cacheLookups = this.registry.counter("codemode_cache_lookups_total", "Result cache lookups for opted-in tools, by server, tool and hit/miss");
+    readonly toonBytesSaved = this.registry.counter("codemode_toon_bytes_saved_total", "Bytes saved by returning TOON instead of JSON");
+    readonly workflowRuns = this.registry.counter("codemode_workflow_runs_total", "execute_workflow runs, by workflow and outcome");
+    readonly workflowSeconds = this.registry.histogram("codemode_workflow_duration_seconds", "execute_workflow run time");
+
+    private currentStates: Map<string, string> = new Map();
+
+    recordServerState(server: string, state: string): void {
+        const previous = this.currentStates.get(server);
+        if (previous === state) return;
+        if (previous) this.serverState.set({ server, state: previous }, 0);
+        this.currentStates.set(server, state);
+        this.serverState.set({ server, state }, 1);
+        this.serverStateTransitions.inc({ server, state });
+    }
+}
+
+/**
+ * Serves GET /metrics for Prometheus scrapes. Binds to localhost unless a
+ * host is configured; resolves once listening.
+ */
+export async function startMetricsServer(registry: MetricsRegistry, port: number, host = "127.0.0.1"): Promise<HttpServer> {
+    const server = createServer((req, res) => {
+        if (req.method !== "GET" || (req.url || "").split("?")[0] !== "/metrics") {
+            res.writeHead(404, { "content-type": "text/plain" }).end("Not found\n");
+            return;
+        }
+        res.writeHead(200, { "content-type": "text/plain; version=0.0.4; charset=utf-8" }).end(registry.render());
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+            server.off("error", reject);
+            resolve();
+        });
+    });
+    const address = server.address() as AddressInfo;
+    console.error(`[CodeMode+TOON] Metrics available at http://${host}:${address.port}/metrics`);
+    return server;
+}
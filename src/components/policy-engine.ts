@@ -0,0 +1,75 @@
+import { PolicyAction, PolicyConfig, PolicyRule } from "./config-manager.js";
+import { matchesAnyGlob, matchesGlob } from "../glob-matcher.js";
+
+const ACTIONS: PolicyAction[] = ["allow", "deny", "require-confirmation", "read-only"];
+
+export interface PolicyDecision {
+    action: PolicyAction;                          // configured action for the tool
+    effect: "allow" | "deny" | "confirm";          // what happens when it is called
+    reason: string;
+}
+
+export class PolicyDeniedError extends Error {
+    constructor(
+        public readonly server: string,
+        public readonly tool: string,
+        public readonly decision: PolicyDecision,
+        public readonly declinedByUser = false
+    ) {
+        super(`Call to ${server}.${tool} denied by policy (${decision.action}): ${decision.reason}`);
+        this.name = "PolicyDeniedError";
+    }
+}
+
+/**
+ * Evaluates the config "policy" section. Rules are checked in order and the
+ * first one whose server and tool globs match decides; otherwise the default
+ * action applies.
+ */
+export class PolicyEngine {
+    private readonly defaultAction: PolicyAction;
+    private readonly rules: PolicyRule[];
+
+    constructor(config: PolicyConfig = {}) {
+        this.defaultAction = "allow";
+        if (config.default !== undefined) {
+            if (ACTIONS.includes(config.default)) {
+                this.defaultAction = config.default;
+            } else {
+                console.error(`[CodeMode+TOON] Ignoring unknown default policy "${config.default}"`);
+            }
+        }
+        this.rules = (config.rules || []).filter((rule) => {
+            if (ACTIONS.includes(rule?.action)) return true;
+            console.error(`[CodeMode+TOON] Ignoring policy rule with unknown action: ${JSON.stringify(rule)}`);
+            return false;
+        });
+    }
+
+    get configured(): boolean {
+        return this.rules.length > 0 || this.defaultAction !== "allow";
+    }
+
+    describe(): { default: PolicyAction; rules: PolicyRule[] } {
+        return { default: this.defaultAction, rules: this.rules };
+    }
+
+    evaluate(server: string, tool: { name: string; annotations?: Record<string, any> }): PolicyDecision {
+        const rule = this.rules.find((r) => matchesGlob(server, r.server ?? "*") && matchesAnyGlob(tool.name, r.tools ?? ["*"]));
+        const action = rule?.action ?? this.defaultAction;
+        const source = rule ? `rule ${this.rules.indexOf(rule) + 1}` : "default policy";
+
+        switch (action) {
+            case "allow":
+                return { action, effect: "allow", reason: `allowed by ${source}` };
+            case "deny":
+                return { action, effect: "deny", reason: rule?.reason || `blocked by ${source}` };
+            case "require-confirmation":
+                return { action, effect: "confirm", reason: rule?.reason || `confirmation required by ${source}` };
+            case "read-only":
+                return tool.annotations?.readOnlyHint
+                    ? { action, effect: "allow", reason: `read-only tool allowed by ${source}` }
+                    : { action, effect: "deny", reason: rule?.reason || `${source} only allows tools annotated readOnlyHint` };
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import { ProgressUpdate } from "./json-rpc-channel.js";
+
+export type ProgressToken = string | number;
+
+/**
+ * Sends notifications/progress for one client request. A no-op when the
+ * client did not ask for progress (no _meta.progressToken).
+ */
+export class ProgressReporter {
+    // Last progress per source, to turn each update into an increment
+    private lastProgress: Map<string, number> = new Map();
+    // Progress sent under the token; the spec requires it to increase
+    private sent = 0;
+
+    constructor(
+        private token: ProgressToken | undefined,
+        private send: (params: { progressToken: ProgressToken; progress: number; total?: number; message?: string }) => Promise<void>
+    ) { }
+
+    get enabled(): boolean {
+        return this.token !== undefined;
+    }
+
+    /**
+     * Sources advance the shared progress by how far they moved since their
+     * own last update, so interleaved sources never make it go backwards.
+     * Totals are only meaningful while a single source has reported.
+     */
+    report(progress: number, total?: number, message?: string, source = "script"): void {
+        if (this.token === undefined || typeof progress !== "number" || !Number.isFinite(progress)) return;
+
+        const last = this.lastProgress.get(source) ?? 0;
+        if (progress <= last) return;
+        this.lastProgress.set(source, progress);
+        this.sent += progress - last;
+
+        const params: { progressToken: ProgressToken; progress: number; total?: number; message?: string } = {
+            progressToken: this.token,
+            progress: this.sent
+        };
+        if (typeof total === "number" && this.lastProgress.size === 1) params.total = total;
+        if (message !== undefined) params.message = String(message);
+        this.send(params).catch(() => { });
+    }
+
+    /**
+     * Callback that relays a downstream tool's progress upstream, labelled
+     * with its origin. Undefined when progress is disabled so downstream
+     * requests are sent without a progress token.
+     */
+    relay(source: string): ((update: ProgressUpdate) => void) | undefined {
+        if (this.token === undefined) return undefined;
+        return (update) => {
+            const message = update.message ? `[${source}] ${update.message}` : `[${source}]`;
+            this.report(update.progress, update.total, message, source);
+        };
+    }
+}
@@ -0,0 +1,15 @@
+// Server-namespaced resource URIs: code-mode-toon://<server>/<original uri>
+
+export const RESOURCE_URI_PREFIX = "code-mode-toon://";
+
+export function toNamespacedUri(server: string, uri: string): string {
+    return `${RESOURCE_URI_PREFIX}${encodeURIComponent(server)}/${uri}`;
+}
+
+export function parseNamespacedUri(uri: string): { server: string; uri: string } | undefined {
+    if (!uri.startsWith(RESOURCE_URI_PREFIX)) return undefined;
+    const rest = uri.slice(RESOURCE_URI_PREFIX.length);
+    const slash = rest.indexOf("/");
+    if (slash <= 0) return undefined;
+    return { server: decodeURIComponent(rest.slice(0, slash)), uri: rest.slice(slash + 1) };
+}
@@ -0,0 +1,185 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import * as path from "path";
+import { TIMEOUTS } from "../constants.js";
+import { matchesAnyGlob, matchesGlob } from "../glob-matcher.js";
+import { canonicalJson } from "./audit-log.js";
+import { CacheConfig, CacheRule } from "./config-manager.js";
+
+interface CacheEntry {
+    server: string;
+    tool: string;
+    args: string;           // canonical JSON of the arguments
+    expiresAt: number;      // epoch ms
+    bytes: number;          // JSON size of the result
+    result: any;
+}
+
+// On-disk format: { version, entries } with entries oldest-used first
+interface CacheFile {
+    version: 1;
+    entries: CacheEntry[];
+}
+
+export interface CacheFilter {
+    server?: string;        // glob
+    tool?: string;          // glob
+}
+
+function toolKey(server: string, tool: string): string {
+    return `${server}\u0000${tool}`;
+}
+
+/**
+ * Memoizes results of tools that the config "cache" section opts in, keyed
+ * by server, tool and canonicalized arguments. Each tool keeps its own LRU
+ * within its rule's maxEntries/maxBytes. The cache is read from disk on first
+ * use and written back shortly after every change, so it survives restarts.
+ */
+export class ResultCache {
+    private readonly rules: CacheRule[];
+    // Per tool, entries in least-recently-used order (Map insertion order)
+    private tools: Map<string, Map<string, CacheEntry>> = new Map();
+    private loading?: Promise<void>;
+    private saveTimer?: NodeJS.Timeout;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string, config: CacheConfig = {}, private readonly now: () => number = Date.now) {
+        this.rules = (config.rules || []).filter((rule) => {
+            if (Array.isArray(rule?.tools) && rule.tools.length && rule.ttlSeconds > 0) return true;
+            console.error(`[CodeMode+TOON] Ignoring cache rule without tools or a positive ttlSeconds: ${JSON.stringify(rule)}`);
+            return false;
+        });
+    }
+
+    get path(): string {
+        return this.filePath;
+    }
+
+    /** First rule whose server and tool globs match; undefined means the tool is not cached. */
+    ruleFor(server: string, tool: string): CacheRule | undefined {
+        return this.rules.find((rule) => matchesGlob(server, rule.server ?? "*") && matchesAnyGlob(tool, rule.tools));
+    }
+
+    async get(server: string, tool: string, args: any): Promise<any | undefined> {
+        if (!this.ruleFor(server, tool)) return undefined;
+        await this.load();
+        const entries = this.tools.get(toolKey(server, tool));
+        const key = canonicalJson(args ?? {});
+        const entry = entries?.get(key);
+        if (!entry) return undefined;
+        entries!.delete(key);
+        if (entry.expiresAt <= this.now()) {
+            this.scheduleSave();
+            return undefined;
+        }
+        entries!.set(key, entry);
+        return structuredClone(entry.result);
+    }
+
+    /** Stores a successful result if the tool is cached and the result fits its rule. */
+    async set(server: string, tool: string, args: any, result: any): Promise<void> {
+        const rule = this.ruleFor(server, tool);
+        if (!rule || result?.isError) return;
+        const bytes = JSON.stringify(result ?? null).length;
+        if (rule.maxBytes !== undefined && bytes > rule.maxBytes) return;
+
+        await this.load();
+        const group = toolKey(server, tool);
+        let entries = this.tools.get(group);
+        if (!entries) {
+            entries = new Map();
+            this.tools.set(group, entries);
+        }
+        const key = canonicalJson(args ?? {});
+        entries.delete(key);
+        entries.set(key, { server, tool, args: key, expiresAt: this.now() + rule.ttlSeconds * 1000, bytes, result: structuredClone(result) });
+        this.evict(entries, rule);
+        this.scheduleSave();
+    }
+
+    /** Drops cached results for matching servers/tools; returns how many were removed. */
+    async clear(filter: CacheFilter = {}): Promise<number> {
+        await this.load();
+        let removed = 0;
+        for (const [group, entries] of this.tools) {
+            const [server, tool] = group.split("\u0000");
+            if (filter.server && !matchesGlob(server, filter.server)) continue;
+            if (filter.tool && !matchesGlob(tool, filter.tool)) continue;
+            removed += entries.size;
+            this.tools.delete(group);
+        }
+        if (removed) this.scheduleSave();
+        return removed;
+    }
+
+    /** Writes pending changes; resolves once the file is up to date. */
+    flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.writes = this.writes.then(() => this.save()).catch((err: any) => {
+                console.error(`[CodeMode+TOON] Failed to write result cache ${this.filePath}: ${err?.message || err}`);
+            });
+        }
+        return this.writes;
+    }
+
+    // Oldest entries go first until the tool is within its limits
+    private evict(entries: Map<string, CacheEntry>, rule: CacheRule): void {
+        const now = this.now();
+        for (const [key, entry] of entries) {
+            if (entry.expiresAt <= now) entries.delete(key);
+        }
+        let bytes = Array.from(entries.values()).reduce((sum, entry) => sum + entry.bytes, 0);
+        for (const [key, entry] of entries) {
+            const overCount = rule.maxEntries !== undefined && entries.size > rule.maxEntries;
+            const overBytes = rule.maxBytes !== undefined && bytes > rule.maxBytes;
+            if (!overCount && !overBytes) break;
+            entries.delete(key);
+            bytes -= entry.bytes;
+        }
+    }
+
+    private load(): Promise<void> {
+        this.loading ??= readFile(this.filePath, "utf-8")
+            .then((text) => {
+                const data: CacheFile = JSON.parse(text);
+                const now = this.now();
+                for (const entry of data.entries || []) {
+                    const rule = this.ruleFor(entry.server, entry.tool);
+                    // Entries of tools no longer opted in are dropped with the next save
+                    if (!rule || entry.expiresAt <= now) continue;
+                    const group = toolKey(entry.server, entry.tool);
+                    if (!this.tools.has(group)) this.tools.set(group, new Map());
+                    this.tools.get(group)!.set(entry.args, entry);
+                }
+                for (const [group, entries] of this.tools) {
+                    const [server, tool] = group.split("\u0000");
+                    this.evict(entries, this.ruleFor(server, tool)!);
+                }
+            })
+            .catch((err: any) => {
+                if (err?.code === "ENOENT") return;
+                console.error(`[CodeMode+TOON] Ignoring unreadable result cache ${this.filePath}: ${err?.message || err}`);
+            });
+        return this.loading;
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => void this.flush(), TIMEOUTS.CACHE_SAVE_DELAY_MS);
+        this.saveTimer.unref();
+    }
+
+    // Written to a temporary file first so a crash never leaves a torn cache
+    private async save(): Promise<void> {
+        const data: CacheFile = {
+            version: 1,
+            entries: Array.from(this.tools.values()).flatMap((entries) => Array.from(entries.values()))
+        };
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        const temp = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(temp, JSON.stringify(data), "utf-8");
+        await rename(temp, this.filePath);
+    }
+}
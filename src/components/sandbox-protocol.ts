@@ -0,0 +1,20 @@
+// Messages exchanged between CodeExecutor and sandbox-worker
+
+export type BridgeOperation =
+    | { op: "tool"; server: string; tool: string; args: any; options?: { timeoutMs?: number } }
+    | { op: "resources.list"; server: string }
+    | { op: "resources.read"; server: string; uri: string }
+    | { op: "get_tool_api"; params: any }
+    | { op: "search_tools"; params: any };
+
+export type ParentMessage =
+    | { type: "execute"; executionId: number; code: string; serverNames: string[]; timeoutMs: number; persistent: boolean }
+    | { type: "reply"; id: number; ok: true; value: any }
+    | { type: "reply"; id: number; ok: false; error: string; policyDenied?: boolean };
+
+export type WorkerMessage =
+    | { type: "request"; executionId: number; id: number; operation: BridgeOperation }
+    | { type: "progress"; executionId: number; current: number; total?: number; message?: string }
+    | { type: "log"; executionId: number; line: string }
+    | { type: "done"; executionId: number; ok: true; json?: string; pending: boolean }
+    | { type: "done"; executionId: number; ok: false; error: string; stack?: string; policyDenied?: boolean; pending: boolean };
@@ -0,0 +1,156 @@
+import * as vm from "node:vm";
+import { parentPort } from "node:worker_threads";
+import { TOONEncoder } from "../toon-encoder.js";
+import { BridgeOperation, ParentMessage } from "./sandbox-protocol.js";
+import { COMPILED_FILENAME } from "./typescript-transpiler.js";
+
+// Runs execute_code submissions inside a worker thread. Everything that needs
+// the orchestrator (MCP calls, tool discovery) goes through the message bridge.
+
+if (!parentPort) {
+    throw new Error("sandbox-worker must be started as a worker thread");
+}
+const port = parentPort;
+
+let nextRequestId = 1;
+const pendingRequests: Map<number, { resolve: (value: any) => void; reject: (err: Error) => void }> = new Map();
+
+// Bridge calls are tagged with the submission that is running now, so proxies
+// kept in session variables keep working in later calls
+let currentExecutionId = 0;
+
+// Timers are tracked per submission so nothing fires during the next one
+let timers: NodeJS.Timeout[] = [];
+let intervals: NodeJS.Timeout[] = [];
+
+// Context kept alive between submissions when this worker backs a session
+let sessionContext: vm.Context | undefined;
+
+function bridge(operation: BridgeOperation): Promise<any> {
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        pendingRequests.set(id, { resolve, reject });
+        port.postMessage({ type: "request", executionId: currentExecutionId, id, operation });
+    });
+}
+
+function formatLogArg(value: any): string {
+    return typeof value === "object" ? JSON.stringify(value, null, 2) : String(value);
+}
+
+function createContext(): vm.Context {
+    const log = (line: string) => port.postMessage({ type: "log", executionId: currentExecutionId, line });
+
+    const sandbox = {
+        progress: (current: number, total?: number, message?: string) => {
+            port.postMessage({ type: "progress", executionId: currentExecutionId, current, total, message });
+        },
+        console: {
+            log: (...args: any[]) => log(args.map(formatLogArg).join(" ")),
+            error: (...args: any[]) => log("[ERROR] " + args.join(" ")),
+            warn: (...args: any[]) => log("[WARN] " + args.join(" "))
+        },
+        TOON: {
+            encode: (data: any) => TOONEncoder.encode(data),
+            decode: (toon: string) => TOONEncoder.decode(toon)
+        },
+        get_tool_api: (params: any) => bridge({ op: "get_tool_api", params }),
+        search_tools: (params: any) => bridge({ op: "search_tools", params })
+    };
+
+    (sandbox as any).setTimeout = (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+        const id = setTimeout(callback, ms, ...args);
+        timers.push(id);
+        return id;
+    };
+    (sandbox as any).setInterval = (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+        const id = setInterval(callback, ms, ...args);
+        intervals.push(id);
+        return id;
+    };
+    (sandbox as any).clearTimeout = (id: NodeJS.Timeout) => {
+        const index = timers.indexOf(id);
+        if (index > -1) timers.splice(index, 1);
+        clearTimeout(id);
+    };
+    (sandbox as any).clearInterval = (id: NodeJS.Timeout) => {
+        const index = intervals.indexOf(id);
+        if (index > -1) intervals.splice(index, 1);
+        clearInterval(id);
+    };
+
+    const context = vm.createContext(sandbox, {
+        codeGeneration: { strings: false, wasm: false }
+    });
+    // Limit access to host globals inside the VM
+    Object.defineProperty(context, "globalThis", { value: sandbox, writable: false, configurable: false });
+    Object.defineProperty(context, "global", { value: sandbox, writable: false, configurable: false });
+    (context as any).Function = undefined;
+    (context as any).eval = undefined;
+    return context;
+}
+
+// Rebound on every submission: the set of servers changes as lazy servers load
+function bindServers(context: vm.Context, serverNames: string[]): void {
+    const serversAPI: Record<string, any> = {};
+    const resourcesAPI: Record<string, any> = {};
+    for (const server of serverNames) {
+        serversAPI[server] = new Proxy({}, {
+            get: (_target, prop) => {
+                if (prop === "then" || typeof prop !== "string") return undefined;
+                return (args: any, options?: { timeoutMs?: number }) => bridge({ op: "tool", server, tool: prop, args, options });
+            }
+        });
+        resourcesAPI[server] = {
+            list: () => bridge({ op: "resources.list", server }),
+            read: (uri: string) => bridge({ op: "resources.read", server, uri })
+        };
+    }
+    context.servers = serversAPI;
+    context.resources = resourcesAPI;
+}
+
+async function execute(msg: Extract<ParentMessage, { type: "execute" }>): Promise<void> {
+    const { executionId } = msg;
+    currentExecutionId = executionId;
+
+    const context = msg.persistent ? (sessionContext ??= createContext()) : createContext();
+    bindServers(context, msg.serverNames);
+
+    let outcome: { ok: true; json?: string } | { ok: false; error: string; stack?: string; policyDenied?: boolean };
+    try {
+        // msg.code is the transpiled submission, already wrapped in an async IIFE.
+        // The vm timeout only covers the synchronous part; the parent terminates
+        // this worker when the wall-clock limit passes
+        const result = await vm.runInContext(msg.code, context, { timeout: msg.timeoutMs, filename: COMPILED_FILENAME });
+        outcome = { ok: true, json: result === undefined ? undefined : JSON.stringify(result) };
+    } catch (err: any) {
+        outcome = { ok: false, error: err?.message ?? String(err), stack: err?.stack, policyDenied: err?.policyDenied === true };
+    } finally {
+        timers.forEach(clearTimeout);
+        intervals.forEach(clearInterval);
+        timers = [];
+        intervals = [];
+    }
+    // Let detached async code reach its next bridge call, so the parent learns
+    // that something is still running and does not reuse this worker
+    await new Promise((resolve) => setImmediate(resolve));
+    port.postMessage({ type: "done", executionId, ...outcome, pending: pendingRequests.size > 0 });
+}
+
+port.on("message", (msg: ParentMessage) => {
+    if (msg.type === "execute") {
+        void execute(msg);
+    } else if (msg.type === "reply") {
+        const pending = pendingRequests.get(msg.id);
+        if (!pending) return;
+        pendingRequests.delete(msg.id);
+        if (msg.ok) pending.resolve(msg.value);
+        else {
+            // Marked so a denial the script lets escape is reported as one
+            const err = new Error(msg.error);
+            if (msg.policyDenied) Object.defineProperty(err, "policyDenied", { value: true });
+            pending.reject(err);
+        }
+    }
+});
@@ -0,0 +1,174 @@
+import { TOONEncoder } from "../toon-encoder.js";
+
+export interface SchemaViolation {
+    path: string;       // e.g. "filter.tags[0]"; "(root)" for the arguments object itself
+    message: string;
+}
+
+/**
+ * Raised by the servers[...] proxies when arguments do not match the tool's
+ * inputSchema. The message lists every violation and the schema in TOON so
+ * the script (or agent) can fix the call without another round trip.
+ */
+export class ArgumentValidationError extends Error {
+    constructor(
+        public readonly server: string,
+        public readonly tool: string,
+        public readonly violations: SchemaViolation[],
+        public readonly schema: any
+    ) {
+        super([
+            `Invalid arguments for ${server}.${tool}:`,
+            ...violations.map((v) => `- ${v.path}: ${v.message}`),
+            "Expected schema (TOON):",
+            TOONEncoder.encode(schema)
+        ].join("\n"));
+        this.name = "ArgumentValidationError";
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number" && Number.isInteger(value)) return "integer";
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case "string": return typeof value === "string";
+        case "number": return typeof value === "number" && Number.isFinite(value);
+        case "integer": return typeof value === "number" && Number.isInteger(value);
+        case "boolean": return typeof value === "boolean";
+        case "null": return value === null;
+        case "array": return Array.isArray(value);
+        case "object": return typeof value === "object" && value !== null && !Array.isArray(value);
+        default: return true;
+    }
+}
+
+function joinPath(base: string, key: string | number): string {
+    if (typeof key === "number") return `${base}[${key}]`;
+    return base ? `${base}.${key}` : key;
+}
+
+function validate(schema: any, value: unknown, path: string, violations: SchemaViolation[]): void {
+    if (schema === true || schema === undefined || schema === null || typeof schema !== "object") return;
+    const at = path || "(root)";
+
+    if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+        const options: any[] = schema.anyOf || schema.oneOf;
+        const matching = options.filter((option) => validateArguments(option, value).length === 0).length;
+        if (matching === 0) {
+            violations.push({ path: at, message: "does not match any of the allowed schemas" });
+            return;
+        }
+        if (schema.oneOf && matching > 1) {
+            violations.push({ path: at, message: "matches more than one schema in oneOf" });
+            return;
+        }
+    }
+    if (Array.isArray(schema.allOf)) {
+        for (const part of schema.allOf) validate(part, value, path, violations);
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(value, type))) {
+            violations.push({ path: at, message: `expected ${types.join(" | ")}, got ${describeType(value)}` });
+            return;
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((allowed: unknown) => JSON.stringify(allowed) === JSON.stringify(value))) {
+        violations.push({ path: at, message: `must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(", ")}` });
+    }
+    if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        violations.push({ path: at, message: `must equal ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === "string") {
+        if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+            violations.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+        }
+        if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+            violations.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+        }
+        if (typeof schema.pattern === "string") {
+            try {
+                if (!new RegExp(schema.pattern, "u").test(value)) {
+                    violations.push({ path: at, message: `must match /${schema.pattern}/` });
+                }
+            } catch {
+                // Patterns JavaScript cannot compile are left to the server
+            }
+        }
+    }
+
+    if (typeof value === "number") {
+        if (typeof schema.minimum === "number" && value < schema.minimum) {
+            violations.push({ path: at, message: `must be >= ${schema.minimum}` });
+        }
+        if (typeof schema.maximum === "number" && value > schema.maximum) {
+            violations.push({ path: at, message: `must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+            violations.push({ path: at, message: `must have at least ${schema.minItems} items` });
+        }
+        if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+            violations.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+        }
+        value.forEach((item, index) => {
+            const itemSchema = Array.isArray(schema.items) ? schema.items[index] : schema.items;
+            validate(itemSchema, item, joinPath(path, index), violations);
+        });
+    }
+
+    if (matchesType(value, "object") && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+        const record = value as Record<string, unknown>;
+        const properties: Record<string, any> = schema.properties || {};
+
+        for (const name of Array.isArray(schema.required) ? schema.required : []) {
+            if (record[name] === undefined) {
+                violations.push({ path: at, message: `missing required property "${name}"` });
+            }
+        }
+        for (const [name, propertyValue] of Object.entries(record)) {
+            if (propertyValue === undefined) continue;
+            if (name in properties) {
+                validate(properties[name], propertyValue, joinPath(path, name), violations);
+            } else if (schema.additionalProperties === false) {
+                const known = Object.keys(properties);
+                violations.push({
+                    path: joinPath(path, name),
+                    message: `unknown property${known.length ? ` (expected one of ${known.join(", ")})` : ""}`
+                });
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+                validate(schema.additionalProperties, propertyValue, joinPath(path, name), violations);
+            }
+        }
+    }
+}
+
+/**
+ * Checks a value against a JSON Schema. Supports the keywords MCP tool
+ * schemas use: type, required, properties, additionalProperties, items,
+ * enum/const, anyOf/oneOf/allOf and the basic string/number/array bounds.
+ * Unknown keywords are ignored, so the server stays the final authority.
+ */
+export function validateArguments(schema: any, value: unknown): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    validate(schema, value, "", violations);
+    return violations;
+}
+
+export function assertValidArguments(server: string, tool: { name: string; inputSchema?: any }, args: unknown): void {
+    if (!tool.inputSchema) return;
+    const violations = validateArguments(tool.inputSchema, args ?? {});
+    if (violations.length) {
+        throw new ArgumentValidationError(server, tool.name, violations, tool.inputSchema);
+    }
+}
@@ -0,0 +1,127 @@
+import { format } from "util";
+import { MCPServer, RedactionConfig } from "./config-manager.js";
+
+export const REDACTED = "[REDACTED]";
+
+// Env var / header names whose values are always treated as secrets
+const SECRET_NAME = /(key|token|secret|passw(or)?d|pwd|auth|credential|cookie|session)/i;
+
+// Command-line flags whose value is a secret: --api-key X, --token=X, -p X ...
+const SECRET_FLAG = /^--?[\w-]*(key|token|secret|passw(or)?d|pwd|auth|credential)[\w-]*$/i;
+
+// Shorter values are too likely to collide with ordinary text
+const MIN_SECRET_LENGTH = 6;
+
+// Long opaque env values (no spaces or path separators) look like credentials
+// even under an innocuous name
+function looksOpaque(value: string): boolean {
+    return value.length >= 20 && !/[\s/\\]/.test(value);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Masks secrets in text leaving the orchestrator: tool results, errors,
+ * audit records and stderr. Secret values are learned from server configs
+ * (env, secret-looking CLI flags, auth headers/tokens) and the config's
+ * "redaction" section; configured patterns are masked wherever they match.
+ */
+export class SecretRedactor {
+    private secrets: Set<string> = new Set();
+    private patterns: RegExp[] = [];
+    private matcher?: RegExp | null;
+
+    constructor(config: RedactionConfig = {}) {
+        for (const value of config.values || []) this.learn(value);
+        for (const pattern of config.patterns || []) {
+            try {
+                this.patterns.push(new RegExp(pattern, "g"));
+            } catch (err: any) {
+                console.error(`[CodeMode+TOON] Ignoring invalid redaction pattern /${pattern}/: ${err?.message || err}`);
+            }
+        }
+    }
+
+    learn(value: unknown): void {
+        if (typeof value !== "string") return;
+        const trimmed = value.trim();
+        if (trimmed.length < MIN_SECRET_LENGTH || this.secrets.has(trimmed)) return;
+        this.secrets.add(trimmed);
+        this.matcher = undefined;
+    }
+
+    learnFromServer(config: MCPServer): void {
+        for (const [name, value] of Object.entries(config.env || {})) {
+            if (SECRET_NAME.test(name) || looksOpaque(value)) this.learn(value);
+        }
+
+        const args = config.args || [];
+        args.forEach((arg, index) => {
+            const [flag, inline] = arg.split(/=(.*)/s, 2);
+            if (!SECRET_FLAG.test(flag)) return;
+            if (inline !== undefined) this.learn(inline);
+            else if (index + 1 < args.length && !args[index + 1].startsWith("-")) this.learn(args[index + 1]);
+        });
+
+        for (const [name, value] of Object.entries(config.headers || {})) {
+            if (SECRET_NAME.test(name)) this.learnCredential(value);
+        }
+        if (config.auth?.token) this.learn(config.auth.token);
+        if (config.auth?.tokenEnv) this.learn(process.env[config.auth.tokenEnv]);
+    }
+
+    /** Learns a credential such as "Bearer abc" as both the full value and the token. */
+    learnCredential(value: string): void {
+        this.learn(value);
+        const token = /^\s*\S+\s+(\S+)\s*$/.exec(value)?.[1];
+        if (token) this.learn(token);
+    }
+
+    redact(text: string): string {
+        if (typeof text !== "string" || !text) return text;
+        let result = text;
+        const matcher = this.secretMatcher();
+        if (matcher) result = result.replace(matcher, REDACTED);
+        for (const pattern of this.patterns) {
+            pattern.lastIndex = 0;
+            result = result.replace(pattern, REDACTED);
+        }
+        return result;
+    }
+
+    /** Deep copy of a JSON-like value with every string redacted. */
+    redactValue<T>(value: T): T {
+        if (typeof value === "string") return this.redact(value) as T;
+        if (Array.isArray(value)) return value.map((item) => this.redactValue(item)) as T;
+        if (value && typeof value === "object") {
+            const copy: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) copy[key] = this.redactValue(item);
+            return copy as T;
+        }
+        return value;
+    }
+
+    // Longest secrets first so a secret containing another is masked whole
+    private secretMatcher(): RegExp | null {
+        if (this.matcher === undefined) {
+            const alternatives = Array.from(this.secrets)
+                .sort((a, b) => b.length - a.length)
+                .map(escapeRegExp);
+            this.matcher = alternatives.length ? new RegExp(alternatives.join("|"), "g") : null;
+        }
+        return this.matcher;
+    }
+}
+
+/**
+ * Routes console output through the redactor so no log line written by the
+ * orchestrator (or relayed from a child's stderr) carries a known secret.
+ */
+export function installConsoleRedaction(redactor: SecretRedactor): void {
+    for (const method of ["log", "info", "warn", "error"] as const) {
+        const original = console[method].bind(console);
+        console[method] = (...args: any[]) => original(redactor.redact(format(...args)));
+    }
+}
@@ -0,0 +1,188 @@
+import { readFile } from "fs/promises";
+
+// Byte-pair-encoding token counts for the efficiency report and benchmarks.
+// Vocabularies are tiktoken rank files ("<base64 token> <rank>" per line)
+// read from data/tokenizers/<name>.tiktoken, so counting never hits the network.
+
+export const DEFAULT_TOKENIZER = "o200k_base";
+
+const TOKENIZER_DATA_DIR = new URL("../../data/tokenizers/", import.meta.url);
+
+// Pre-tokenization splits text into pieces that BPE never merges across.
+// JavaScript ports of the tiktoken patterns (no possessive quantifiers; o200k
+// must not be case-insensitive or \p{Lu} would match lowercase letters).
+const PATTERNS: Record<string, RegExp> = {
+    cl100k_base: /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu,
+    o200k_base: new RegExp([
+        "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:'s|'t|'re|'ve|'m|'ll|'d)?",
+        "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:'s|'t|'re|'ve|'m|'ll|'d)?",
+        "\\p{N}{1,3}",
+        " ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*",
+        "\\s*[\\r\\n]+",
+        "\\s+(?!\\S)",
+        "\\s+"
+    ].join("|"), "gu")
+};
+
+export const TOKENIZER_NAMES = Object.keys(PATTERNS);
+
+// Pieces repeat a lot in structured data (keys, punctuation)
+const PIECE_CACHE_SIZE = 10_000;
+
+// Merging is quadratic in the piece length, so longer pieces (minified blobs,
+// base64, long runs of one character class) are merged in windows of this
+// many bytes. Counts can differ from tiktoken by a token per window boundary.
+const MAX_MERGE_BYTES = 256;
+
+export interface TokenCounter {
+    name: string;
+    exact: boolean;      // false for the character-based estimate
+    count(text: string): number;
+}
+
+/** Fallback when no vocabulary is available: ~4 UTF-8 bytes per token. */
+export const ESTIMATED_TOKENS: TokenCounter = {
+    name: "estimate",
+    exact: false,
+    count: (text: string) => Math.ceil(Buffer.byteLength(text, "utf8") / 4)
+};
+
+/**
+ * Parses a tiktoken rank file. Keys are the token's bytes as a latin1 string
+ * (one char per byte) so lookups avoid Buffer allocations.
+ */
+export function parseTiktokenRanks(data: string): Map<string, number> {
+    const ranks = new Map<string, number>();
+    for (const line of data.split("\n")) {
+        const [token, rank] = line.trim().split(/\s+/);
+        if (!token || rank === undefined) continue;
+        ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+    }
+    return ranks;
+}
+
+export class BpeTokenizer implements TokenCounter {
+    readonly exact = true;
+    private pieceCache: Map<string, number[]> = new Map();
+
+    constructor(
+        readonly name: string,
+        private ranks: Map<string, number>,
+        private pattern: RegExp
+    ) { }
+
+    encode(text: string): number[] {
+        const tokens: number[] = [];
+        for (const match of text.matchAll(this.pattern)) {
+            for (const token of this.encodePiece(match[0])) tokens.push(token);
+        }
+        return tokens;
+    }
+
+    count(text: string): number {
+        let total = 0;
+        for (const match of text.matchAll(this.pattern)) {
+            total += this.encodePiece(match[0]).length;
+        }
+        return total;
+    }
+
+    private encodePiece(piece: string): number[] {
+        const cached = this.pieceCache.get(piece);
+        if (cached) return cached;
+
+        const bytes = Buffer.from(piece, "utf8").toString("latin1");
+        const whole = this.ranks.get(bytes);
+        let tokens: number[];
+        if (whole !== undefined) {
+            tokens = [whole];
+        } else if (bytes.length <= MAX_MERGE_BYTES) {
+            tokens = this.mergePairs(bytes);
+        } else {
+            tokens = [];
+            for (let start = 0; start < bytes.length; start += MAX_MERGE_BYTES) {
+                for (const token of this.mergePairs(bytes.slice(start, start + MAX_MERGE_BYTES))) tokens.push(token);
+            }
+        }
+
+        if (this.pieceCache.size >= PIECE_CACHE_SIZE) this.pieceCache.clear();
+        this.pieceCache.set(piece, tokens);
+        return tokens;
+    }
+
+    // Repeatedly merges the adjacent pair with the lowest rank, as tiktoken does
+    private mergePairs(bytes: string): number[] {
+        const bounds = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+        while (bounds.length > 2) {
+            let best = -1;
+            let bestRank = Infinity;
+            for (let i = 0; i < bounds.length - 2; i++) {
+                const rank = this.ranks.get(bytes.slice(bounds[i], bounds[i + 2]));
+                if (rank !== undefined && rank < bestRank) {
+                    bestRank = rank;
+                    best = i;
+                }
+            }
+            if (best < 0) break;
+            bounds.splice(best + 1, 1);
+        }
+
+        const tokens: number[] = [];
+        for (let i = 0; i < bounds.length - 1; i++) {
+            const segment = bytes.slice(bounds[i], bounds[i + 1]);
+            const rank = this.ranks.get(segment);
+            if (rank === undefined) {
+                throw new Error(`Vocabulary ${this.name} has no token for byte 0x${segment.charCodeAt(0).toString(16)}`);
+            }
+            tokens.push(rank);
+        }
+        return tokens;
+    }
+}
+
+const loaded: Map<string, Promise<TokenCounter>> = new Map();
+
+/**
+ * Loads a bundled vocabulary by name. Falls back to ESTIMATED_TOKENS (with a
+ * one-time warning) when the name is unknown or its data file is missing.
+ */
+export function loadTokenizer(name: string = DEFAULT_TOKENIZER, dataDir: URL = TOKENIZER_DATA_DIR): Promise<TokenCounter> {
+    const key = `${dataDir.href}${name}`;
+    let tokenizer = loaded.get(key);
+    if (!tokenizer) {
+        tokenizer = readTokenizer(name, dataDir);
+        loaded.set(key, tokenizer);
+    }
+    return tokenizer;
+}
+
+async function readTokenizer(name: string, dataDir: URL): Promise<TokenCounter> {
+    const pattern = PATTERNS[name];
+    if (!pattern) {
+        console.error(`[CodeMode+TOON] Unknown tokenizer "${name}" (expected ${TOKENIZER_NAMES.join(" or ")}); estimating token counts`);
+        return ESTIMATED_TOKENS;
+    }
+    try {
+        const data = await readFile(new URL(`${name}.tiktoken`, dataDir), "utf-8");
+        return new BpeTokenizer(name, parseTiktokenRanks(data), pattern);
+    } catch (err: any) {
+        console.error(`[CodeMode+TOON] Tokenizer data for ${name} unavailable (${err?.message || err}); estimating token counts`);
+        return ESTIMATED_TOKENS;
+    }
+}
+
+export interface TokenComparison {
+    json: number;
+    toon: number;
+    savings: number;     // percent of JSON tokens saved by TOON
+}
+
+export function compareTokens(counter: TokenCounter, json: string, toon: string): TokenComparison {
+    const jsonTokens = counter.count(json);
+    const toonTokens = counter.count(toon);
+    return {
+        json: jsonTokens,
+        toon: toonTokens,
+        savings: jsonTokens > 0 ? (1 - toonTokens / jsonTokens) * 100 : 0
+    };
+}
@@ -1,11 +1,28 @@
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+    CallToolRequest,
+    CallToolRequestSchema,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ListToolsRequestSchema,
+    ReadResourceRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { ConfigManager } from "./config-manager.js";
-import { MCPServerManager } from "./mcp-server-manager.js";
+import { ListKind, MCPServerManager } from "./mcp-server-manager.js";
 import { CodeExecutor } from "./code-executor.js";
 import { WorkflowManager } from "./workflow-manager.js";
 import { TOONEncoder } from "../toon-encoder.js";
+import { TIMEOUTS } from "../constants.js";
 import { PathNormalizer } from "./path-normalizer.js";
+import { parseNamespacedUri, toNamespacedUri, RESOURCE_URI_PREFIX } from "./resource-namespace.js";
+import { ProgressReporter } from "./progress-reporter.js";
+import { createTypeNamer, generateServerDeclarations } from "./tool-typings.js";
+import { requestToolConfirmation } from "./elicitation.js";
+import { PolicyDeniedError } from "./policy-engine.js";
+import { parseTraceparent, Span } from "./tracing.js";
 
 export class ToolRegistry {
     private readonly usageSections: Record<string, { title: string; summary: string; steps?: string[]; tips?: string[] }> = {
@@ -26,12 +43,15 @@ export class ToolRegistry {
         },
         execute_code: {
             title: "execute_code",
-            summary: "Runs TypeScript/JavaScript in a vm sandbox with auto-proxied MCP tools.",
+            summary: "Runs TypeScript/JavaScript in a worker-thread vm sandbox with auto-proxied MCP tools.",
             steps: [
-                "Inputs: { code: string }.",
-                "Sandbox helpers: servers[server].tool(payload), TOON.encode/decode, get_tool_api, search_tools.",
+                "Inputs: { code: string, sessionId?: string }.",
+                "Pass typeCheck: true to check submissions against the loaded servers' tool schemas before running.",
+                "With sessionId, top-level declarations and other globals survive between calls; list_sessions and close_session manage them.",
+                "Sandbox helpers: servers[server].tool(payload, { timeoutMs? }), resources[server].list()/read(uri), progress(current, total?, message?), TOON.encode/decode, get_tool_api, search_tools.",
+                "TypeScript syntax is stripped before running; errors point at your line and column.",
                 "Return payload includes captured logs plus the normalized result in TOON.",
-                "Guardrails: 100KB code size limit, 60s execution timeout."
+                "Guardrails: 100KB code size limit, 60s execution timeout (the worker is terminated), 256MB heap."
             ],
             tips: [
                 "Use servers[...] proxies for batching operations.",
@@ -43,8 +63,8 @@ export class ToolRegistry {
             title: "search_tools",
             summary: "Keyword search across tool names/descriptions for servers currently loaded.",
             steps: [
-                "Inputs: { query: string, detailLevel?: \"name\" | \"name+description\" | \"full\", hydrateLazy?: boolean }.",
-                "Use detailLevel='full' to see complete input schemas.",
+                "Inputs: { query: string, detailLevel?: \"name\" | \"name+description\" | \"full\" | \"typescript\", hydrateLazy?: boolean }.",
+                "Use detailLevel='full' to see complete input schemas, or 'typescript' for typed declarations of the matches.",
                 "When hydrateLazy=true, deferred servers are started before searching."
             ],
             tips: [
@@ -78,6 +98,9 @@ export class ToolRegistry {
         }
     };
 
+    private pendingListChanges: Set<ListKind> = new Set();
+    private listChangedTimer?: NodeJS.Timeout;
+
     constructor(
         private server: Server,
         private configManager: ConfigManager,
@@ -88,6 +111,12 @@ export class ToolRegistry {
     ) { }
 
     setupHandlers() {
+        this.serverManager.onListChanged((_server, kinds) => this.scheduleListChanged(kinds));
+        this.serverManager.setConfirmationHandler((request) => requestToolConfirmation(this.server, {
+            ...request,
+            args: this.serverManager.redactor.redactValue(request.args)
+        }));
+
         this.server.setRequestHandler(ListToolsRequestSchema, async () => {
             const availableServers = Array.from(this.serverManager.getLoadedServers().keys()).join(", ");
             const lazyServers = Array.from(this.serverManager.getLazyServers()).join(", ");
@@ -124,12 +153,19 @@ const result = await servers['perplexity'].perplexity_ask({
 
 // 3. Compress large results
 console.log(TOON.encode(result));
+
+// 4. Read downstream resources
+const readme = await resources['filesystem'].read('file:///project/README.md');
+
+// 5. Keep data for the next call: pass sessionId; top-level declarations persist
+const issues = await servers['github'].list_issues({repo: 'x'});  // later calls in the session can read issues
 \`\`\`
 
 ERROR RECOVERY:
 - "Server not found" → list_servers shows available
 - "Tool undefined" → get_tool_api({serverName}) shows tools
 - "Timeout (60s)" → break into smaller operations
+- "Tool timeout" → pass { timeoutMs } as the second proxy argument for slow tools
 
 All results TOON-compressed by default.`,
                         inputSchema: {
@@ -138,11 +174,72 @@ All results TOON-compressed by default.`,
                                 code: {
                                     type: "string",
                                     description: "TypeScript/JavaScript code. Use servers['name'].tool({params}) to call MCP tools."
+                                },
+                                typeCheck: {
+                                    type: "boolean",
+                                    default: false,
+                                    description: "Type-check against loaded servers' tool schemas before running (see get_tool_api detailLevel 'typescript')"
+                                },
+                                sessionId: {
+                                    type: "string",
+                                    description: "Optional session name. Top-level declarations and other globals persist between calls with the same sessionId."
                                 }
                             },
                             required: ["code"]
                         }
                     },
+                    {
+                        name: "list_sessions",
+                        description: "Lists persistent execute_code sessions with their age, use count and time until they expire.",
+                        inputSchema: { type: "object", properties: {} }
+                    },
+                    {
+                        name: "close_session",
+                        description: "Closes a persistent execute_code session and discards its state.",
+                        inputSchema: {
+                            type: "object",
+                            properties: { sessionId: { type: "string" } },
+                            required: ["sessionId"]
+                        }
+                    },
+                    {
+                        name: "get_metrics",
+                        description: "Returns orchestrator metrics: server load times and states, tool call counts/latency per server and tool, execute_code durations, TOON bytes saved and workflow runs.",
+                        inputSchema: {
+                            type: "object",
+                            properties: {
+                                filter: { type: "string", description: "Metric name glob, e.g. codemode_tool_*" },
+                                format: { type: "string", enum: ["toon", "prometheus"], default: "toon" }
+                            }
+                        }
+                    },
+                    {
+                        name: "query_audit_log",
+                        description: "Returns recorded downstream tool calls (oldest first) as TOON rows: who called what, when, how long it took and how it ended. Requires an \"audit\" section in the config.",
+                        inputSchema: {
+                            type: "object",
+                            properties: {
+                                server: { type: "string", description: "Server name glob" },
+                                tool: { type: "string", description: "Tool name glob" },
+                                origin: { type: "string", description: "Top-level tool glob, e.g. execute_code or execute_workflow:*" },
+                                outcome: { type: "string", enum: ["ok", "error", "denied", "cancelled"] },
+                                since: { type: "string", description: "ISO timestamp (inclusive)" },
+                                until: { type: "string", description: "ISO timestamp (exclusive)" },
+                                limit: { type: "number", default: 100, description: "Most recent matching entries to return" }
+                            }
+                        }
+                    },
+                    {
+                        name: "clear_cache",
+                        description: "Drops cached downstream results so the next calls fetch fresh data. Without arguments the whole cache is cleared. Requires a \"cache\" section in the config.",
+                        inputSchema: {
+                            type: "object",
+                            properties: {
+                                server: { type: "string", description: "Server name glob" },
+                                tool: { type: "string", description: "Tool name glob" }
+                            }
+                        }
+                    },
                     {
                         name: "execute_workflow",
                         description: "USE WHEN you need research, K8s auditing, or incident analysis. Pre-built automation with parallel execution and automatic retries.",
@@ -174,7 +271,7 @@ All results TOON-compressed by default.`,
                             type: "object",
                             properties: {
                                 query: { type: "string" },
-                                detailLevel: { type: "string", enum: ["name", "name+description", "full"], default: "name+description" },
+                                detailLevel: { type: "string", enum: ["name", "name+description", "full", "typescript"], default: "name+description" },
                                 hydrateLazy: { type: "boolean", description: "Set true to hydrate lazy servers before searching", default: false },
                                 maxLazyServers: { type: "integer", minimum: 1, description: "Optional cap for how many lazy servers to hydrate when searching" }
                             },
@@ -186,7 +283,15 @@ All results TOON-compressed by default.`,
                         description: "CALL BEFORE using a server to see exact parameter schemas. Returns all tools with their input requirements.",
                         inputSchema: {
                             type: "object",
-                            properties: { serverName: { type: "string" } },
+                            properties: {
+                                serverName: { type: "string" },
+                                detailLevel: {
+                                    type: "string",
+                                    enum: ["full", "typescript"],
+                                    default: "full",
+                                    description: "'typescript' returns declarations usable in execute_code"
+                                }
+                            },
                             required: ["serverName"]
                         }
                     },
@@ -248,63 +353,167 @@ Considers: operation count, data size, existing workflows.`,
             };
         });
 
-        this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-            const { name, arguments: args } = request.params;
+        this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+            return { resources: this.listResources() };
+        });
 
-            try {
-                if (name === "execute_code") {
-                    return await this.codeExecutor.executeCode((args as any).code, this);
-                } else if (name === "execute_workflow") {
-                    const result = await this.workflowManager.executeWorkflow((args as any).workflowName, (args as any).parameters || {});
-                    return { content: [{ type: "text", text: TOONEncoder.encode(result) }] };
-                } else if (name === "list_workflows") {
-                    const workflows = this.workflowManager.listWorkflows();
-                    return { content: [{ type: "text", text: TOONEncoder.encode(workflows) }] };
-                } else if (name === "search_tools") {
-                    return await this.searchTools(
-                        (args as any).query,
-                        (args as any).detailLevel,
-                        {
-                            hydrateLazy: Boolean((args as any).hydrateLazy),
-                            maxLazyServers: (args as any).maxLazyServers
-                        }
-                    );
-                } else if (name === "get_tool_api") {
-                    return await this.getToolAPI((args as any).serverName);
-                } else if (name === "set_project_root") {
-                    const newRoot = (args as any).path;
-                    this.configManager.setProjectRoot(newRoot);
-                    this.pathNormalizer.setProjectRoot(this.configManager.getProjectRoot());
-                    return {
-                        content: [{ type: "text", text: `Project root set to: ${this.configManager.getProjectRoot()}` }]
-                    };
-                } else if (name === "list_servers") {
-                    return {
-                        content: [{
-                            type: "text",
-                            text: TOONEncoder.encode({
-                                loaded: Array.from(this.serverManager.getLoadedServers().keys()),
-                                lazyAvailable: Array.from(this.serverManager.getLazyServers()),
-                                disabled: this.serverManager.getDisabledServers()
-                            })
-                        }]
-                    };
-                } else if (name === "usage_guide") {
-                    return this.getUsageGuide((args as any).section);
-                } else if (name === "suggest_approach") {
-                    return this.suggestApproach(
-                        (args as any).task,
-                        (args as any).estimated_operations,
-                        (args as any).data_type
-                    );
-                }
+        this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+            return { resourceTemplates: this.listResourceTemplates() };
+        });
 
-                throw new Error(`Unknown tool: ${name}`);
-            } catch (error: any) {
-                const errorMessage = this.formatError(error, { tool: name, server: (args as any)?.serverName });
-                throw new Error(errorMessage);
-            }
+        this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+            const result = await this.traceRequest("resources/read", "mcp.resource.uri", request.params.uri, request.params._meta,
+                (span) => this.readResource(request.params.uri, span));
+            return this.serverManager.redactor.redactValue(result);
+        });
+
+        this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+            return { prompts: this.listPrompts() };
+        });
+
+        this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+            const result = await this.traceRequest("prompts/get", "mcp.prompt.name", request.params.name, request.params._meta,
+                (span) => this.getPrompt(request.params.name, request.params.arguments, span));
+            return this.serverManager.redactor.redactValue(result);
         });
+
+        this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+            // Results are redacted here; errors in callTool's catch
+            const result = await this.traceRequest("tools/call", "mcp.tool.name", request.params.name, request.params._meta,
+                (span) => this.callTool(request, extra, span));
+            return this.serverManager.redactor.redactValue(result);
+        });
+    }
+
+    /**
+     * Wraps a client request in a server span, continuing the client's trace
+     * when its _meta carries a W3C traceparent.
+     */
+    private traceRequest<T>(
+        method: string,
+        targetAttribute: string,
+        target: string,
+        meta: Record<string, unknown> | undefined,
+        fn: (span: Span) => Promise<T>
+    ): Promise<T> {
+        return this.serverManager.tracer.withSpan(`${method} ${target}`, {
+            kind: "server",
+            parent: parseTraceparent(meta?.traceparent),
+            attributes: { "mcp.method.name": method, [targetAttribute]: target }
+        }, fn);
+    }
+
+    private async callTool(request: CallToolRequest, extra: RequestHandlerExtra, span?: Span): Promise<any> {
+        const { name, arguments: args } = request.params;
+        const progress = new ProgressReporter(
+            request.params._meta?.progressToken,
+            (params) => this.server.notification({ method: "notifications/progress", params: this.serverManager.redactor.redactValue(params) })
+        );
+
+        try {
+            if (name === "execute_code") {
+                const result = await this.codeExecutor.executeCode((args as any).code, this, {
+                    signal: extra.signal,
+                    progress,
+                    sessionId: (args as any).sessionId,
+                    typeCheck: (args as any).typeCheck,
+                    span
+                });
+                const { denial, ...response } = result;
+                if (denial) {
+                    // Policy denials point at the policy, so the script is not retried as is
+                    response.content[0].text = this.formatError(new Error(response.content[0].text), { denial });
+                }
+                return response;
+            } else if (name === "list_sessions") {
+                return { content: [{ type: "text", text: TOONEncoder.encode(this.codeExecutor.listSessions()) }] };
+            } else if (name === "close_session") {
+                const sessionId = (args as any).sessionId;
+                if (!this.codeExecutor.closeSession(sessionId)) {
+                    throw new Error(`Session "${sessionId}" not found`);
+                }
+                return { content: [{ type: "text", text: `Session "${sessionId}" closed` }] };
+            } else if (name === "get_metrics") {
+                return { content: [{ type: "text", text: this.getMetrics((args as any)?.filter, (args as any)?.format) }] };
+            } else if (name === "query_audit_log") {
+                const audit = this.serverManager.auditLog;
+                if (!audit) {
+                    throw new Error(`Audit log is disabled. Add an "audit" section to the config to record tool calls.`);
+                }
+                const entries = await audit.query(args as any);
+                return { content: [{ type: "text", text: TOONEncoder.encode(entries) }] };
+            } else if (name === "clear_cache") {
+                const cache = this.serverManager.resultCache;
+                if (!cache) {
+                    throw new Error(`Result cache is disabled. Add a "cache" section with rules to the config to cache tool results.`);
+                }
+                const removed = await cache.clear({ server: (args as any)?.server, tool: (args as any)?.tool });
+                return { content: [{ type: "text", text: `Cleared ${removed} cached result(s)` }] };
+            } else if (name === "execute_workflow") {
+                const result = await this.workflowManager.executeWorkflow(
+                    (args as any).workflowName,
+                    (args as any).parameters || {},
+                    { signal: extra.signal, progress, span }
+                );
+                return { content: [{ type: "text", text: TOONEncoder.encode(result) }] };
+            } else if (name === "list_workflows") {
+                const workflows = this.workflowManager.listWorkflows();
+                return { content: [{ type: "text", text: TOONEncoder.encode(workflows) }] };
+            } else if (name === "search_tools") {
+                return await this.searchTools(
+                    (args as any).query,
+                    (args as any).detailLevel,
+                    {
+                        hydrateLazy: Boolean((args as any).hydrateLazy),
+                        maxLazyServers: (args as any).maxLazyServers
+                    }
+                );
+            } else if (name === "get_tool_api") {
+                return await this.getToolAPI((args as any).serverName, (args as any).detailLevel);
+            } else if (name === "set_project_root") {
+                const newRoot = (args as any).path;
+                this.configManager.setProjectRoot(newRoot);
+                this.pathNormalizer.setProjectRoot(this.configManager.getProjectRoot());
+                return {
+                    content: [{ type: "text", text: `Project root set to: ${this.configManager.getProjectRoot()}` }]
+                };
+            } else if (name === "list_servers") {
+                return {
+                    content: [{
+                        type: "text",
+                        text: TOONEncoder.encode({
+                            loaded: Array.from(this.serverManager.getLoadedServers().keys()),
+                            lazyAvailable: Array.from(this.serverManager.getLazyServers()),
+                            disabled: this.serverManager.getDisabledServers(),
+                            ...(this.serverManager.policy.configured ? { policy: this.describePolicy() } : {})
+                        })
+                    }]
+                };
+            } else if (name === "usage_guide") {
+                return this.getUsageGuide((args as any).section);
+            } else if (name === "suggest_approach") {
+                return this.suggestApproach(
+                    (args as any).task,
+                    (args as any).estimated_operations,
+                    (args as any).data_type
+                );
+            }
+
+            throw new Error(`Unknown tool: ${name}`);
+        } catch (error: any) {
+            const errorMessage = this.formatError(error, { tool: name, server: (args as any)?.serverName });
+            throw new Error(this.serverManager.redactor.redact(errorMessage));
+        }
+    }
+
+    getMetrics(filter?: string, format: string = "toon"): string {
+        const registry = this.serverManager.metrics.registry;
+        if (format === "prometheus") return registry.render(filter);
+        return TOONEncoder.encode(registry.samples(filter).map((sample) => ({
+            name: sample.name,
+            labels: Object.entries(sample.labels).map(([key, value]) => `${key}=${value}`).join(","),
+            value: sample.value
+        })));
     }
 
     async searchTools(
@@ -317,6 +526,7 @@ Considers: operation count, data size, existing workflows.`,
         }
 
         const results: any[] = [];
+        const typed: Map<string, any[]> = new Map();
         const lowerQuery = query.toLowerCase();
 
         for (const [serverName, server] of this.serverManager.getLoadedServers()) {
@@ -326,7 +536,9 @@ Considers: operation count, data size, existing workflows.`,
                     (tool.description || '').toLowerCase().includes(lowerQuery);
 
                 if (match) {
-                    if (detailLevel === "name") {
+                    if (detailLevel === "typescript") {
+                        typed.set(serverName, [...(typed.get(serverName) || []), tool]);
+                    } else if (detailLevel === "name") {
                         results.push({ server: serverName, tool: tool.name });
                     } else if (detailLevel === "name+description") {
                         results.push({
@@ -346,19 +558,140 @@ Considers: operation count, data size, existing workflows.`,
             }
         }
 
+        if (detailLevel === "typescript") {
+            const names = createTypeNamer();
+            const declarations = Array.from(typed, ([serverName, tools]) => generateServerDeclarations(serverName, tools, names));
+            return {
+                content: [{ type: "text", text: declarations.join("\n\n") || `// No tools match "${query}"` }]
+            };
+        }
+
         return {
             content: [{ type: "text", text: TOONEncoder.encode(results) }]
         };
     }
 
-    async getToolAPI(serverName: string) {
+    // Only loaded servers are listed; a lazy server's resources follow its load via list_changed
+    listResources() {
+        const resources: any[] = [];
+        for (const [serverName, server] of this.serverManager.getLoadedServers()) {
+            for (const resource of server.resources) {
+                resources.push({
+                    ...resource,
+                    uri: toNamespacedUri(serverName, resource.uri),
+                    name: `${serverName}/${resource.name}`
+                });
+            }
+        }
+        return resources;
+    }
+
+    listResourceTemplates() {
+        const resourceTemplates: any[] = [];
+        for (const [serverName, server] of this.serverManager.getLoadedServers()) {
+            for (const template of server.resourceTemplates) {
+                resourceTemplates.push({
+                    ...template,
+                    uriTemplate: toNamespacedUri(serverName, template.uriTemplate),
+                    name: `${serverName}/${template.name}`
+                });
+            }
+        }
+        return resourceTemplates;
+    }
+
+    async readResource(namespacedUri: string, span?: Span) {
+        const parsed = parseNamespacedUri(namespacedUri);
+        if (!parsed) {
+            throw new Error(`Unknown resource URI "${namespacedUri}". Expected ${RESOURCE_URI_PREFIX}<server>/<uri> (see resources/list)`);
+        }
+
+        const server = await this.serverManager.ensureServerLoaded(parsed.server, span);
+        const result = await server.readResource(parsed.uri);
+        const contents = (result?.contents || []).map((content: any) => {
+            const rewritten = { ...content, uri: toNamespacedUri(parsed.server, content.uri ?? parsed.uri) };
+            if (!this.configManager.codeModeConfig.enableTOON || typeof content.text !== "string") {
+                return rewritten;
+            }
+            const isJson = (content.mimeType || "").includes("json");
+            if (!isJson) return rewritten;
+            try {
+                return { ...rewritten, mimeType: "text/plain", text: TOONEncoder.encode(JSON.parse(content.text)) };
+            } catch {
+                return rewritten;
+            }
+        });
+        return { contents };
+    }
+
+    /**
+     * Coalesces bursts of downstream changes (e.g. several eager loads
+     * finishing together) into one notification per list kind.
+     */
+    private scheduleListChanged(kinds: ListKind[]): void {
+        kinds.forEach((kind) => this.pendingListChanges.add(kind));
+        if (this.listChangedTimer) return;
+
+        this.listChangedTimer = setTimeout(() => {
+            this.listChangedTimer = undefined;
+            const pending = Array.from(this.pendingListChanges);
+            this.pendingListChanges.clear();
+            for (const kind of pending) {
+                // Fails harmlessly when no client is connected yet
+                this.server.notification({ method: `notifications/${kind}/list_changed` }).catch(() => { });
+            }
+        }, TIMEOUTS.LIST_CHANGED_DEBOUNCE_MS);
+    }
+
+    listPrompts() {
+        const prompts: any[] = [];
+        for (const [serverName, server] of this.serverManager.getLoadedServers()) {
+            for (const prompt of server.prompts) {
+                prompts.push({
+                    ...prompt,
+                    name: `${serverName}/${prompt.name}`,
+                    description: prompt.description ? `[${serverName}] ${prompt.description}` : `[${serverName}]`
+                });
+            }
+        }
+        return prompts;
+    }
+
+    async getPrompt(namespacedName: string, args?: Record<string, string>, span?: Span) {
+        const slash = namespacedName.indexOf("/");
+        if (slash <= 0) {
+            throw new Error(`Unknown prompt "${namespacedName}". Prompt names are namespaced as <server>/<prompt> (see prompts/list)`);
+        }
+        const serverName = namespacedName.slice(0, slash);
+        const promptName = namespacedName.slice(slash + 1);
+
+        // Lazy servers are hydrated here so their prompts work without a prior tool call
+        const server = await this.serverManager.ensureServerLoaded(serverName, span);
+        if (!server.prompts.some((p) => p.name === promptName)) {
+            throw new Error(`Prompt "${promptName}" not found on server "${serverName}"`);
+        }
+        return await server.getPrompt(promptName, args);
+    }
+
+    async getToolAPI(serverName: string, detailLevel: string = "full") {
         try {
             const server = await this.serverManager.ensureServerLoaded(serverName);
+            if (detailLevel === "typescript") {
+                const tools = server.tools.map((tool) => {
+                    const decision = this.serverManager.getToolPolicy(serverName, tool);
+                    if (decision.effect === "allow") return tool;
+                    return { ...tool, description: `${tool.description || ""}\n@policy ${decision.action}: ${decision.reason}`.trim() };
+                });
+                return {
+                    content: [{ type: "text", text: generateServerDeclarations(serverName, tools) }]
+                };
+            }
             const apiDef = server.tools.map(tool => ({
                 name: tool.name,
                 description: tool.description,
                 parameters: tool.inputSchema.properties || {},
-                required: tool.inputSchema.required || []
+                required: tool.inputSchema.required || [],
+                policy: this.serverManager.getToolPolicy(serverName, tool).action
             }));
 
             return {
@@ -446,7 +779,19 @@ USAGE: Call the MCP tool directly without CodeModeTOON overhead`;
         return { content: [{ type: "text", text: recommendation }] };
     }
 
-    private formatError(error: Error, context: { tool?: string, server?: string }): string {
+    private describePolicy() {
+        const { default: defaultAction, rules } = this.serverManager.policy.describe();
+        return {
+            default: defaultAction,
+            rules: rules.map((rule) => ({
+                server: rule.server ?? "*",
+                tools: (rule.tools ?? ["*"]).join(" "),
+                action: rule.action
+            }))
+        };
+    }
+
+    private formatError(error: Error, context: { tool?: string, server?: string, denial?: PolicyDeniedError }): string {
         const base = error.message;
         const hints: string[] = [];
 
@@ -462,6 +807,15 @@ USAGE: Call the MCP tool directly without CodeModeTOON overhead`;
             hints.push(`Available workflows: ${this.workflowManager.listWorkflows().map(w => w.name).join(", ")}`);
         }
 
+        const denial = context.denial ?? (error instanceof PolicyDeniedError ? error : undefined);
+        if (denial) {
+            hints.push(`TIP: list_servers shows the active policy and get_tool_api shows each tool's policy`);
+            hints.push(`TIP: Policies are set in the "policy" section of the config; choose an allowed tool instead of retrying`);
+            if (denial.declinedByUser) {
+                hints.push(`TIP: The user rejected this call; ask them before trying it again`);
+            }
+        }
+
         if (base.includes("undefined") && context.tool) {
             hints.push(`TIP: Call get_tool_api({serverName: "${context.server}"}) to see available tools`);
         }
@@ -0,0 +1,190 @@
+// Generates TypeScript declarations for downstream tools from their JSON
+// Schema inputSchema. Used by get_tool_api/search_tools (detailLevel
+// "typescript") and to type-check execute_code submissions.
+
+export interface TypedTool {
+    name: string;
+    description?: string;
+    inputSchema?: any;
+}
+
+const INDENT = "    ";
+
+export function toTypeName(...parts: string[]): string {
+    const name = parts
+        .join(" ")
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word[0].toUpperCase() + word.slice(1))
+        .join("");
+    return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+/**
+ * Type names for one set of declarations. Distinct names can share a
+ * PascalCase form (server `a-b` + tool `c` and server `a` + tool `b-c` are
+ * both ABC), so later ones are numbered (ABC2Args) in the order they are named.
+ */
+export interface TypeNamer {
+    args(serverName: string, toolName: string): string;
+    tools(serverName: string): string;
+}
+
+export function createTypeNamer(): TypeNamer {
+    const taken = new Set<string>();
+    const assigned = new Map<string, string>();
+    const unique = (key: string, stem: string, suffix: string) => {
+        let name = assigned.get(key);
+        if (name) return name;
+        name = `${stem}${suffix}`;
+        for (let n = 2; taken.has(name); n++) name = `${stem}${n}${suffix}`;
+        taken.add(name);
+        assigned.set(key, name);
+        return name;
+    };
+    return {
+        args: (serverName, toolName) => unique(`args\u0000${serverName}\u0000${toolName}`, toTypeName(serverName, toolName), "Args"),
+        tools: (serverName) => unique(`tools\u0000${serverName}`, toTypeName(serverName), "Tools")
+    };
+}
+
+function propertyKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(text: string | undefined, indent: string): string[] {
+    if (!text) return [];
+    const lines = text.replace(/\*\//g, "*\\/").split(/\r?\n/).map((line) => line.trimEnd());
+    if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+    return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+function wrapUnionMember(type: string): string {
+    return /[|&]/.test(type) && !/^[{(\[]/.test(type) ? `(${type})` : type;
+}
+
+function objectType(schema: any, indent: string): string {
+    const properties: Record<string, any> = schema.properties || {};
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const inner = indent + INDENT;
+    const lines: string[] = [];
+
+    for (const [name, propertySchema] of Object.entries(properties)) {
+        lines.push(...docComment(propertySchema?.description, inner));
+        const optional = required.has(name) ? "" : "?";
+        lines.push(`${inner}${propertyKey(name)}${optional}: ${schemaToTypeScript(propertySchema, inner)};`);
+    }
+
+    const extra = schema.additionalProperties;
+    if (extra === true || (extra && typeof extra === "object")) {
+        lines.push(`${inner}[key: string]: ${extra === true ? "unknown" : schemaToTypeScript(extra, inner)};`);
+    } else if (!lines.length && extra !== false) {
+        return "Record<string, unknown>";
+    }
+
+    return lines.length ? `{\n${lines.join("\n")}\n${indent}}` : "{}";
+}
+
+/**
+ * JSON Schema -> TypeScript type expression. Covers the subset MCP servers use
+ * in practice: primitives, enums/const, arrays/tuples, nested objects and
+ * anyOf/oneOf/allOf. Anything else becomes unknown.
+ */
+export function schemaToTypeScript(schema: any, indent = ""): string {
+    if (schema === true || schema === undefined || schema === null) return "unknown";
+    if (schema === false) return "never";
+    if (typeof schema !== "object") return "unknown";
+
+    if (Array.isArray(schema.enum) && schema.enum.length) {
+        return schema.enum.map((value: unknown) => JSON.stringify(value)).join(" | ");
+    }
+    if ("const" in schema) return JSON.stringify(schema.const);
+
+    const union = schema.anyOf || schema.oneOf;
+    if (Array.isArray(union) && union.length) {
+        return union.map((member: any) => wrapUnionMember(schemaToTypeScript(member, indent))).join(" | ");
+    }
+    if (Array.isArray(schema.allOf) && schema.allOf.length) {
+        return schema.allOf.map((member: any) => wrapUnionMember(schemaToTypeScript(member, indent))).join(" & ");
+    }
+
+    if (Array.isArray(schema.type)) {
+        return schema.type
+            .map((type: string) => wrapUnionMember(schemaToTypeScript({ ...schema, type }, indent)))
+            .join(" | ");
+    }
+
+    switch (schema.type) {
+        case "string":
+            return "string";
+        case "number":
+        case "integer":
+            return "number";
+        case "boolean":
+            return "boolean";
+        case "null":
+            return "null";
+        case "array":
+            if (Array.isArray(schema.items)) {
+                return `[${schema.items.map((item: any) => schemaToTypeScript(item, indent)).join(", ")}]`;
+            }
+            return `${wrapUnionMember(schemaToTypeScript(schema.items, indent))}[]`;
+        case "object":
+            return objectType(schema, indent);
+        default:
+            return schema.properties ? objectType(schema, indent) : "unknown";
+    }
+}
+
+function hasRequiredArgs(tool: TypedTool): boolean {
+    return Array.isArray(tool.inputSchema?.required) && tool.inputSchema.required.length > 0;
+}
+
+export function toolSignature(serverName: string, tool: TypedTool, names: TypeNamer): string {
+    const optional = hasRequiredArgs(tool) ? "" : "?";
+    return `${propertyKey(tool.name)}(args${optional}: ${names.args(serverName, tool.name)}, options?: { timeoutMs?: number }): Promise<any>`;
+}
+
+/**
+ * Declarations for one server: an Args interface per tool plus a Tools
+ * interface describing servers['<server>']. Pass a shared namer when several
+ * servers' declarations end up in one file.
+ */
+export function generateServerDeclarations(serverName: string, tools: TypedTool[], names: TypeNamer = createTypeNamer()): string {
+    const blocks: string[] = [`// ${serverName}`];
+    for (const tool of tools) {
+        blocks.push(`type ${names.args(serverName, tool.name)} = ${schemaToTypeScript({ type: "object", ...(tool.inputSchema || {}) })};`);
+    }
+
+    const members = tools.flatMap((tool) => [
+        ...docComment(tool.description, INDENT),
+        `${INDENT}${toolSignature(serverName, tool, names)};`
+    ]);
+    blocks.push(`interface ${names.tools(serverName)} {\n${members.join("\n")}\n}`);
+    return blocks.join("\n\n");
+}
+
+/**
+ * Ambient declarations for the execute_code sandbox. Loaded servers are typed;
+ * lazy or unknown servers fall back to any.
+ */
+export function generateSandboxDeclarations(servers: Array<{ name: string; tools: TypedTool[] }>): string {
+    const names = createTypeNamer();
+    const serverDeclarations = servers.map((server) => generateServerDeclarations(server.name, server.tools, names));
+    const serverEntries = servers.map((server) => `${INDENT}${JSON.stringify(server.name)}: ${names.tools(server.name)};`);
+
+    return [
+        ...serverDeclarations,
+        `declare const servers: {\n${[...serverEntries, `${INDENT}[server: string]: any;`].join("\n")}\n};`,
+        `declare const resources: { [server: string]: { list(): Promise<any>; read(uri: string): Promise<any> } };`,
+        `declare function progress(current: number, total?: number, message?: string): void;`,
+        `declare function get_tool_api(params: { serverName: string; detailLevel?: "full" | "typescript" }): Promise<any>;`,
+        `declare function search_tools(params: { query: string; detailLevel?: "name" | "name+description" | "full" | "typescript" }): Promise<any>;`,
+        `declare const TOON: { encode(data: unknown): string; decode(toon: string): any };`,
+        `declare const console: { log(...args: any[]): void; error(...args: any[]): void; warn(...args: any[]): void };`,
+        `declare function setTimeout(callback: (...args: any[]) => void, ms?: number, ...args: any[]): any;`,
+        `declare function setInterval(callback: (...args: any[]) => void, ms?: number, ...args: any[]): any;`,
+        `declare function clearTimeout(id: any): void;`,
+        `declare function clearInterval(id: any): void;`
+    ].join("\n\n") + "\n";
+}
@@ -0,0 +1,258 @@
+import { randomBytes } from "crypto";
+import { appendFile, mkdir } from "fs/promises";
+import * as path from "path";
+import { performance } from "perf_hooks";
+import { LIMITS, TIMEOUTS } from "../constants.js";
+import { TracingConfig } from "./config-manager.js";
+import { SecretRedactor } from "./secret-redactor.js";
+
+// OpenTelemetry-compatible tracing without the SDK. Spans are passed
+// explicitly (CallOptions.span, ExecutionOptions.span) rather than through
+// async context, and exported as OTLP/JSON to a file and/or a collector.
+
+export type SpanKind = "internal" | "server" | "client";
+export type AttributeValue = string | number | boolean;
+
+// OTLP enum values
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export interface SpanContext {
+    traceId: string;    // 32 hex chars
+    spanId: string;     // 16 hex chars
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    parent?: SpanContext;
+    attributes?: Record<string, AttributeValue | undefined>;
+}
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/** Parses a W3C traceparent header; undefined when absent or malformed. */
+export function parseTraceparent(value: unknown): SpanContext | undefined {
+    if (typeof value !== "string") return undefined;
+    const match = TRACEPARENT.exec(value.trim().toLowerCase());
+    if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return undefined;
+    return { traceId: match[1], spanId: match[2] };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+/** Adds _meta.traceparent to request params so downstream servers can join the trace. */
+export function withTraceContext(params: any, span?: Span): any {
+    const traceparent = span?.traceparent;
+    if (!traceparent) return params;
+    const base = params && typeof params === "object" ? params : {};
+    return { ...base, _meta: { ...(base._meta || {}), traceparent } };
+}
+
+// Microsecond precision keeps the intermediate value below 2^53
+function nowUnixNano(): bigint {
+    return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * 1000n;
+}
+
+function toOtlpValue(value: AttributeValue): Record<string, unknown> {
+    if (typeof value === "boolean") return { boolValue: value };
+    if (typeof value === "number") {
+        return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    }
+    return { stringValue: value };
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>): Array<{ key: string; value: Record<string, unknown> }> {
+    return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+export class Span {
+    readonly traceId: string;
+    readonly spanId: string;
+    readonly parentSpanId?: string;
+    private readonly startTime = nowUnixNano();
+    private endTime?: bigint;
+    private attributes: Record<string, AttributeValue> = {};
+    private status: { code: number; message?: string } = { code: 0 };
+
+    constructor(
+        readonly name: string,
+        readonly kind: SpanKind,
+        parent: SpanContext | undefined,
+        private exporter?: OtlpJsonExporter
+    ) {
+        this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+        this.spanId = randomBytes(8).toString("hex");
+        this.parentSpanId = parent?.spanId;
+    }
+
+    /** False when tracing is off; such spans are never exported or propagated. */
+    get recording(): boolean {
+        return this.exporter !== undefined;
+    }
+
+    get traceparent(): string | undefined {
+        return this.recording ? formatTraceparent(this) : undefined;
+    }
+
+    get ended(): boolean {
+        return this.endTime !== undefined;
+    }
+
+    setAttribute(key: string, value: AttributeValue | undefined): this {
+        if (value !== undefined) this.attributes[key] = value;
+        return this;
+    }
+
+    setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+        for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+        return this;
+    }
+
+    setOk(): this {
+        this.status = { code: STATUS_OK };
+        return this;
+    }
+
+    setError(error: unknown): this {
+        const message = error instanceof Error ? error.message : String(error);
+        this.status = { code: STATUS_ERROR, message };
+        return this;
+    }
+
+    end(): void {
+        if (this.ended) return;
+        this.endTime = nowUnixNano();
+        this.exporter?.export(this);
+    }
+
+    toOtlp(): Record<string, unknown> {
+        return {
+            traceId: this.traceId,
+            spanId: this.spanId,
+            ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+            name: this.name,
+            kind: SPAN_KIND_CODES[this.kind],
+            startTimeUnixNano: String(this.startTime),
+            endTimeUnixNano: String(this.endTime ?? this.startTime),
+            attributes: toOtlpAttributes(this.attributes),
+            status: this.status
+        };
+    }
+}
+
+/**
+ * Batches ended spans and writes them as OTLP/JSON ExportTraceServiceRequest
+ * bodies: one per line in the trace file, and/or POSTed to an OTLP/HTTP
+ * collector (e.g. http://localhost:4318/v1/traces).
+ */
+export class OtlpJsonExporter {
+    private queue: Span[] = [];
+    private timer?: NodeJS.Timeout;
+    private writes: Promise<void> = Promise.resolve();
+    private dirReady?: Promise<unknown>;
+
+    constructor(private readonly config: TracingConfig, private readonly redactor?: SecretRedactor) { }
+
+    export(span: Span): void {
+        this.queue.push(span);
+        if (this.queue.length >= LIMITS.TRACE_BATCH_SPANS) {
+            void this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                void this.flush();
+            }, TIMEOUTS.TRACE_EXPORT_INTERVAL_MS);
+            this.timer.unref();
+        }
+    }
+
+    /** Sends queued spans; resolves once every batch so far has been written. */
+    flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        const batch = this.queue.splice(0);
+        if (batch.length) {
+            const body = JSON.stringify(this.toRequest(batch));
+            this.writes = this.writes
+                .then(() => this.send(body))
+                .catch((err: any) => {
+                    console.error(`[CodeMode+TOON] Failed to export ${batch.length} span(s): ${err?.message || err}`);
+                });
+        }
+        return this.writes;
+    }
+
+    private toRequest(batch: Span[]): Record<string, unknown> {
+        const spans = batch.map((span) => span.toOtlp());
+        return {
+            resourceSpans: [{
+                resource: { attributes: toOtlpAttributes({ "service.name": this.config.serviceName || "code-mode-toon" }) },
+                scopeSpans: [{
+                    scope: { name: "code-mode-toon" },
+                    spans: this.redactor ? this.redactor.redactValue(spans) : spans
+                }]
+            }]
+        };
+    }
+
+    private async send(body: string): Promise<void> {
+        const { file, endpoint } = this.config;
+        if (file) {
+            this.dirReady ??= mkdir(path.dirname(file), { recursive: true });
+            await this.dirReady;
+            await appendFile(file, body + "\n", "utf-8");
+        }
+        if (endpoint) {
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: { "content-type": "application/json", ...(this.config.headers || {}) },
+                body,
+                signal: AbortSignal.timeout(TIMEOUTS.HTTP_REQUEST_TIMEOUT_MS)
+            });
+            if (!response.ok) throw new Error(`collector ${endpoint} responded ${response.status}`);
+        }
+    }
+}
+
+/** Starts spans; without an exporter every span is a non-recording no-op. */
+export class Tracer {
+    constructor(private readonly exporter?: OtlpJsonExporter) { }
+
+    get enabled(): boolean {
+        return this.exporter !== undefined;
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        const span = new Span(name, options.kind ?? "internal", options.parent, this.exporter);
+        if (options.attributes) span.setAttributes(options.attributes);
+        return span;
+    }
+
+    /**
+     * Runs fn inside a span that ends when it settles. Thrown errors and MCP
+     * results with isError mark the span as failed.
+     */
+    async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+        const span = this.startSpan(name, options);
+        try {
+            const result = await fn(span);
+            if ((result as any)?.isError) span.setError("tool returned isError");
+            else span.setOk();
+            return result;
+        } catch (err) {
+            span.setError(err);
+            throw err;
+        } finally {
+            span.end();
+        }
+    }
+
+    flush(): Promise<void> {
+        return this.exporter?.flush() ?? Promise.resolve();
+    }
+}
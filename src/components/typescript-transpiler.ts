@@ -0,0 +1,311 @@
+import type * as TypeScript from "typescript";
+
+// Source name used for execute_code submissions in diagnostics and stack traces
+export const SUBMISSION_FILENAME = "execute_code.ts";
+export const COMPILED_FILENAME = "execute_code.js";
+
+// Submissions run inside an async IIFE so top-level await works; the wrapper
+// takes one line before the user's code
+const WRAPPER_PREFIX = "(async () => {\n";
+const WRAPPER_SUFFIX = "\n})()";
+
+export interface SourcePosition {
+    line: number;      // 1-based, in the user's submission
+    column: number;    // 1-based
+}
+
+export interface TranspileDiagnostic extends SourcePosition {
+    code: number;
+    message: string;
+}
+
+export class TranspileError extends Error {
+    constructor(public readonly diagnostics: TranspileDiagnostic[], heading = "TypeScript syntax", hint?: string) {
+        super(formatDiagnostics(diagnostics, heading) + (hint ? `\n${hint}` : ""));
+        this.name = "TranspileError";
+    }
+}
+
+const DECLARATIONS_FILENAME = "sandbox.d.ts";
+
+// Session state (earlier declarations, bare assignments, globalThis.x) looks
+// undeclared, so "cannot find name" style errors never block a submission
+const IGNORED_TYPE_ERRORS = new Set([2304, 2552, 2582, 2583, 18004]);
+
+export interface TranspiledSubmission {
+    js: string;
+    // Maps a line/column of the compiled script back to the submission
+    mapPosition(line: number, column: number): SourcePosition | undefined;
+}
+
+let typescript: Promise<typeof TypeScript> | undefined;
+
+// The compiler is large, so it is only loaded once the first submission arrives
+export function loadTypeScript(): Promise<typeof TypeScript> {
+    typescript ??= import("typescript").then((mod: any) => mod.default ?? mod);
+    return typescript;
+}
+
+export function wrapSubmission(code: string): string {
+    return WRAPPER_PREFIX + code + WRAPPER_SUFFIX;
+}
+
+/**
+ * Strips TypeScript syntax from an execute_code submission. Plain JavaScript
+ * passes through unchanged apart from formatting. Syntax errors are reported
+ * with positions in the user's code. With persistDeclarations, top-level
+ * const/let/var, function and class declarations become globals so a session
+ * keeps them for its next call.
+ */
+export async function transpileSubmission(code: string, persistDeclarations = false): Promise<TranspiledSubmission> {
+    const ts = await loadTypeScript();
+    const output = ts.transpileModule(wrapSubmission(code), {
+        fileName: SUBMISSION_FILENAME,
+        reportDiagnostics: true,
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+            sourceMap: true,
+            // Sessions rely on sloppy-mode global assignment
+            alwaysStrict: false
+        },
+        transformers: persistDeclarations ? { before: [globalizeDeclarations(ts)] } : undefined
+    });
+
+    if (output.diagnostics?.length) {
+        throw new TranspileError(output.diagnostics.map((diagnostic) => toDiagnostic(ts, diagnostic)));
+    }
+
+    const js = output.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, "\n");
+    const mappings = decodeMappings(JSON.parse(output.sourceMapText || "{}").mappings || "");
+    return {
+        js,
+        mapPosition: (line, column) => mapGeneratedPosition(mappings, line, column)
+    };
+}
+
+/**
+ * Rewrites the top-level declarations of the wrapped submission into global
+ * assignments: `const x: T = 1` becomes `x = 1`, destructuring becomes an
+ * assignment pattern, `class A {}` becomes `A = class A {}` and functions are
+ * copied onto globalThis before the first statement (they stay hoisted).
+ * `let x;` without an initializer only defines x when no earlier submission
+ * did, so it does not wipe a kept value. Enums and namespaces keep their
+ * TypeScript emit and are copied onto globalThis right after it; const enums
+ * and type-only namespaces have no runtime value and are not kept.
+ */
+function globalizeDeclarations(ts: typeof TypeScript): TypeScript.TransformerFactory<TypeScript.SourceFile> {
+    const f = ts.factory;
+
+    const toTarget = (name: TypeScript.BindingName): TypeScript.Expression => {
+        if (ts.isIdentifier(name)) return f.createIdentifier(name.text);
+        if (ts.isArrayBindingPattern(name)) {
+            return f.createArrayLiteralExpression(name.elements.map((element) => {
+                if (ts.isOmittedExpression(element)) return f.createOmittedExpression();
+                if (element.dotDotDotToken) return f.createSpreadElement(toTarget(element.name));
+                return withDefault(toTarget(element.name), element.initializer);
+            }));
+        }
+        return f.createObjectLiteralExpression(name.elements.map((element) => {
+            if (element.dotDotDotToken) return f.createSpreadAssignment(toTarget(element.name));
+            if (!element.propertyName && ts.isIdentifier(element.name)) {
+                return f.createShorthandPropertyAssignment(element.name.text, element.initializer);
+            }
+            return f.createPropertyAssignment(element.propertyName ?? (element.name as TypeScript.Identifier).text,
+                withDefault(toTarget(element.name), element.initializer));
+        }));
+    };
+    const withDefault = (target: TypeScript.Expression, initializer?: TypeScript.Expression) =>
+        initializer ? f.createAssignment(target, initializer) : target;
+
+    const rewrite = (statement: TypeScript.Statement): TypeScript.Statement => {
+        if (ts.isVariableStatement(statement)) {
+            const assignments = statement.declarationList.declarations.map((declaration) => declaration.initializer
+                ? f.createAssignment(toTarget(declaration.name), declaration.initializer)
+                : f.createLogicalOr(
+                    f.createBinaryExpression(f.createStringLiteral((declaration.name as TypeScript.Identifier).text), ts.SyntaxKind.InKeyword, f.createIdentifier("globalThis")),
+                    f.createAssignment(toTarget(declaration.name), f.createVoidZero())));
+            const expression = assignments.slice(1).reduce<TypeScript.Expression>((left, right) => f.createComma(left, right), assignments[0]);
+            return ts.setTextRange(f.createExpressionStatement(expression), statement);
+        }
+        if (ts.isClassDeclaration(statement) && statement.name) {
+            const classExpression = f.createClassExpression(statement.modifiers?.filter(ts.isDecorator), statement.name,
+                statement.typeParameters, statement.heritageClauses, statement.members);
+            return ts.setTextRange(f.createExpressionStatement(f.createAssignment(f.createIdentifier(statement.name.text), classExpression)), statement);
+        }
+        return statement;
+    };
+
+    // typeof X !== "undefined" && (globalThis.X = X), placed after an enum or namespace
+    const exportAfter = (statement: TypeScript.Statement): TypeScript.Statement[] => {
+        if (!ts.isEnumDeclaration(statement) && !(ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name))) return [];
+        if (statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ConstKeyword || m.kind === ts.SyntaxKind.DeclareKeyword)) return [];
+        const name = (statement.name as TypeScript.Identifier).text;
+        return [f.createExpressionStatement(f.createLogicalAnd(
+            f.createStrictInequality(f.createTypeOfExpression(f.createIdentifier(name)), f.createStringLiteral("undefined")),
+            f.createParenthesizedExpression(f.createAssignment(
+                f.createPropertyAccessExpression(f.createIdentifier("globalThis"), name),
+                f.createIdentifier(name)))))];
+    };
+
+    return () => (sourceFile) => {
+        // (async () => { <submission> })()
+        const wrapper = sourceFile.statements[0];
+        if (!wrapper || !ts.isExpressionStatement(wrapper) || !ts.isCallExpression(wrapper.expression)) return sourceFile;
+        const callee = wrapper.expression.expression;
+        const arrow = ts.isParenthesizedExpression(callee) ? callee.expression : undefined;
+        if (!arrow || !ts.isArrowFunction(arrow) || !ts.isBlock(arrow.body)) return sourceFile;
+
+        const functions = arrow.body.statements
+            .filter((statement): statement is TypeScript.FunctionDeclaration => ts.isFunctionDeclaration(statement) && statement.name !== undefined && statement.body !== undefined)
+            .map((statement) => f.createExpressionStatement(f.createAssignment(
+                f.createPropertyAccessExpression(f.createIdentifier("globalThis"), statement.name!.text),
+                f.createIdentifier(statement.name!.text))));
+        const body = f.updateBlock(arrow.body, [...functions, ...arrow.body.statements.flatMap((statement) => [rewrite(statement), ...exportAfter(statement)])]);
+        const call = f.updateCallExpression(wrapper.expression,
+            f.updateParenthesizedExpression(callee as TypeScript.ParenthesizedExpression,
+                f.updateArrowFunction(arrow, arrow.modifiers, arrow.typeParameters, arrow.parameters, arrow.type, arrow.equalsGreaterThanToken, body)),
+            wrapper.expression.typeArguments, wrapper.expression.arguments);
+        return f.updateSourceFile(sourceFile, [f.updateExpressionStatement(wrapper, call), ...sourceFile.statements.slice(1)]);
+    };
+}
+
+export function toDiagnostic(ts: typeof TypeScript, diagnostic: TypeScript.Diagnostic): TranspileDiagnostic {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+    if (!diagnostic.file || diagnostic.start === undefined) {
+        return { code: diagnostic.code, message, line: 1, column: 1 };
+    }
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return { code: diagnostic.code, message, ...toSubmissionPosition(line, character) };
+}
+
+export function formatDiagnostics(diagnostics: TranspileDiagnostic[], heading = "TypeScript syntax"): string {
+    const shown = diagnostics.slice(0, 5).map((d) => `TS${d.code} at line ${d.line}, column ${d.column}: ${d.message}`);
+    if (diagnostics.length > shown.length) shown.push(`...and ${diagnostics.length - shown.length} more`);
+    return `${heading} error${diagnostics.length === 1 ? "" : "s"} in submission:\n${shown.join("\n")}`;
+}
+
+const libFiles: Map<string, TypeScript.SourceFile> = new Map();
+
+/**
+ * Type-checks a submission against ambient sandbox declarations (see
+ * generateSandboxDeclarations). Returns the diagnostics that should block the
+ * run; an empty list means the submission may execute.
+ */
+export async function typeCheckSubmission(code: string, declarations: string): Promise<TranspileDiagnostic[]> {
+    const ts = await loadTypeScript();
+    const options: TypeScript.CompilerOptions = {
+        target: ts.ScriptTarget.ES2022,
+        lib: ["lib.es2022.d.ts"],
+        noEmit: true,
+        strict: false,
+        noImplicitAny: false,
+        types: []
+    };
+    const sources: Record<string, string> = {
+        [SUBMISSION_FILENAME]: wrapSubmission(code),
+        [DECLARATIONS_FILENAME]: declarations
+    };
+
+    const host = ts.createCompilerHost(options, true);
+    const readLib = host.getSourceFile.bind(host);
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+        if (fileName in sources) {
+            return ts.createSourceFile(fileName, sources[fileName], languageVersion, true);
+        }
+        // Parsed lib files are reused across submissions
+        let file = libFiles.get(fileName);
+        if (!file) {
+            file = readLib(fileName, languageVersion, onError);
+            if (file) libFiles.set(fileName, file);
+        }
+        return file;
+    };
+    host.fileExists = (fileName) => fileName in sources || ts.sys.fileExists(fileName);
+    host.readFile = (fileName) => sources[fileName] ?? ts.sys.readFile(fileName);
+    host.writeFile = () => { };
+
+    const program = ts.createProgram([SUBMISSION_FILENAME, DECLARATIONS_FILENAME], options, host);
+    const submission = program.getSourceFile(SUBMISSION_FILENAME)!;
+    return [...program.getSyntacticDiagnostics(submission), ...program.getSemanticDiagnostics(submission)]
+        .filter((diagnostic) => !IGNORED_TYPE_ERRORS.has(diagnostic.code) && !isGlobalThisAccess(ts, diagnostic))
+        .map((diagnostic) => toDiagnostic(ts, diagnostic));
+}
+
+// globalThis.x on an undeclared x is a session global, not a mistake
+function isGlobalThisAccess(ts: typeof TypeScript, diagnostic: TypeScript.Diagnostic): boolean {
+    return diagnostic.code === 2339 && ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n").includes("'typeof globalThis'");
+}
+
+/**
+ * Finds the first execute_code frame in a stack trace and maps it back to the
+ * submission.
+ */
+export function locateInStack(stack: string | undefined, submission: TranspiledSubmission): SourcePosition | undefined {
+    if (!stack) return undefined;
+    const match = new RegExp(`${COMPILED_FILENAME.replace(".", "\\.")}:(\\d+):(\\d+)`).exec(stack);
+    if (!match) return undefined;
+    return submission.mapPosition(Number(match[1]), Number(match[2]));
+}
+
+// Zero-based wrapped-source position -> one-based submission position
+function toSubmissionPosition(line: number, character: number): SourcePosition {
+    return line === 0 ? { line: 1, column: 1 } : { line, column: character + 1 };
+}
+
+type Segment = [generatedColumn: number, sourceLine: number, sourceColumn: number];
+
+function mapGeneratedPosition(mappings: Segment[][], line: number, column: number): SourcePosition | undefined {
+    const segments = mappings[line - 1];
+    if (!segments?.length) return undefined;
+    let best = segments[0];
+    for (const segment of segments) {
+        if (segment[0] <= column - 1) best = segment;
+        else break;
+    }
+    return toSubmissionPosition(best[1], best[2]);
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Decodes source map v3 "mappings" (single source, names ignored)
+function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let sourceLine = 0;
+    let sourceColumn = 0;
+
+    for (const lineText of mappings.split(";")) {
+        const segments: Segment[] = [];
+        let generatedColumn = 0;
+        for (const segmentText of lineText.split(",")) {
+            if (!segmentText) continue;
+            const values = decodeVlq(segmentText);
+            generatedColumn += values[0];
+            if (values.length >= 4) {
+                sourceLine += values[2];
+                sourceColumn += values[3];
+                segments.push([generatedColumn, sourceLine, sourceColumn]);
+            }
+        }
+        lines.push(segments);
+    }
+    return lines;
+}
+
+function decodeVlq(text: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of text) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
@@ -0,0 +1,113 @@
+import { ResourceLimits, Worker } from "node:worker_threads";
+import { cancellationReason, RequestCancelledError } from "./json-rpc-channel.js";
+
+/**
+ * Fixed-size pool of worker threads. Workers are spawned on demand, returned
+ * with release() after a clean run and terminated with discard() when they
+ * timed out, were cancelled, ran out of memory or still had work pending.
+ */
+export class WorkerPool {
+    private idle: Worker[] = [];
+    private busy: Set<Worker> = new Set();
+    private waiters: Array<{ resolve: (worker: Worker) => void; reject: (err: Error) => void }> = [];
+    private closed = false;
+
+    constructor(
+        private script: URL,
+        private size: number,
+        private resourceLimits: ResourceLimits
+    ) { }
+
+    /** Rejects with RequestCancelledError if the signal aborts before a worker is free. */
+    acquire(signal?: AbortSignal): Promise<Worker> {
+        if (this.closed) return Promise.reject(new Error("Worker pool is shut down"));
+        if (signal?.aborted) return Promise.reject(new RequestCancelledError("Execution cancelled by client"));
+
+        const idle = this.idle.pop();
+        if (idle) return Promise.resolve(this.checkOut(idle));
+        if (this.busy.size < this.size) return Promise.resolve(this.checkOut(this.spawn()));
+
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                resolve: (worker: Worker) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(worker);
+                },
+                reject: (err: Error) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    reject(err);
+                }
+            };
+            const onAbort = () => {
+                const index = this.waiters.indexOf(waiter);
+                if (index < 0) return;
+                this.waiters.splice(index, 1);
+                const reason = cancellationReason(signal!);
+                reject(new RequestCancelledError(`Execution cancelled by client while waiting for a sandbox worker${reason ? `: ${reason}` : ""}`));
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.waiters.push(waiter);
+        });
+    }
+
+    release(worker: Worker): void {
+        if (!this.busy.delete(worker)) return;
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            this.busy.add(worker);
+            waiter.resolve(worker);
+            return;
+        }
+        // Idle workers must not keep the process alive
+        worker.unref();
+        this.idle.push(worker);
+    }
+
+    discard(worker: Worker): void {
+        this.busy.delete(worker);
+        this.idle = this.idle.filter((w) => w !== worker);
+        void worker.terminate();
+
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(this.checkOut(this.spawn()));
+    }
+
+    async shutdown(): Promise<void> {
+        this.closed = true;
+        for (const waiter of this.waiters.splice(0)) {
+            waiter.reject(new Error("Worker pool is shut down"));
+        }
+        const workers = [...this.idle, ...this.busy];
+        this.idle = [];
+        this.busy.clear();
+        await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    /**
+     * Worker with the pool's script and limits that does not take a pool slot.
+     * The caller owns it and must terminate it.
+     */
+    spawnDetached(): Worker {
+        const worker = new Worker(this.script, { resourceLimits: this.resourceLimits });
+        worker.on("error", () => { });
+        worker.unref();
+        return worker;
+    }
+
+    private spawn(): Worker {
+        const worker = new Worker(this.script, { resourceLimits: this.resourceLimits });
+        // Errors are handled by whoever holds the worker; a worker that dies
+        // while idle is simply dropped
+        worker.on("error", () => { });
+        worker.once("exit", () => {
+            this.idle = this.idle.filter((w) => w !== worker);
+        });
+        return worker;
+    }
+
+    private checkOut(worker: Worker): Worker {
+        worker.ref();
+        this.busy.add(worker);
+        return worker;
+    }
+}
@@ -6,6 +6,10 @@ import { ConfigManager } from './config-manager.js';
 import { MCPServerManager } from './mcp-server-manager.js';
 import { PathNormalizer } from './path-normalizer.js';
 import { TOONEncoder } from '../toon-encoder.js';
+import { rejectOnAbort, RequestCancelledError } from './json-rpc-channel.js';
+import { ProgressReporter } from './progress-reporter.js';
+import { assertValidArguments } from './schema-validator.js';
+import { Span } from './tracing.js';
 
 export class WorkflowManager {
     private workflows: Map<string, WorkflowDefinition> = new Map();
@@ -77,7 +81,7 @@ export class WorkflowManager {
         }));
     }
 
-    async executeWorkflow(name: string, params: any): Promise<any> {
+    async executeWorkflow(name: string, params: any, options: { signal?: AbortSignal; progress?: ProgressReporter; span?: Span } = {}): Promise<any> {
         const workflow = this.workflows.get(name);
         if (!workflow) {
             throw new Error(`Workflow '${name}' not found`);
@@ -117,17 +121,25 @@ export class WorkflowManager {
             ...this.serverManager.getLazyServers()
         ]);
 
+        const { signal, progress, span } = options;
         const serversAPI: Record<string, any> = {};
         for (const serverName of serverNames) {
             serversAPI[serverName] = new Proxy({}, {
                 get: (_target, prop) => {
                     if (prop === "then" || typeof prop !== "string") return undefined;
                     return async (rawArgs: any) => {
-                        const server = await this.serverManager.ensureServerLoaded(serverName);
+                        if (signal?.aborted) throw new RequestCancelledError(`Workflow '${name}' cancelled by client`);
+                        const server = await this.serverManager.ensureServerLoaded(serverName, span);
                         const tool = server.tools.find((t) => t.name === prop);
                         if (!tool) throw new Error(`Tool "${prop}" not found on server "${serverName}"`);
                         const args = this.pathNormalizer.normalizeArguments(rawArgs);
-                        const result = await server.call(tool.name, args);
+                        assertValidArguments(serverName, tool, args);
+                        const result = await server.call(tool.name, args, {
+                            signal,
+                            onProgress: progress?.relay(`${serverName}.${tool.name}`),
+                            caller: { origin: `execute_workflow:${name}` },
+                            span
+                        });
                         return this.unwrapMCPResult(result);
                     };
                 }
@@ -136,10 +148,30 @@ export class WorkflowManager {
 
         const context: WorkflowContext = {
             servers: serversAPI,
-            encode: (data: any) => TOONEncoder.encode(data)
+            encode: (data: any) => TOONEncoder.encode(data),
+            signal,
+            progress: (current: number, total?: number, message?: string) => {
+                progress?.report(current, total, message);
+            }
+        };
+
+        const started = Date.now();
+        const record = (outcome: string) => {
+            this.serverManager.metrics.workflowRuns.inc({ workflow: name, outcome });
+            this.serverManager.metrics.workflowSeconds.observe({ workflow: name }, (Date.now() - started) / 1000);
         };
 
-        return await workflow.execute(params, context);
+        const run = workflow.execute(params, context);
+        try {
+            const result = signal
+                ? await Promise.race([run, rejectOnAbort(signal, `Workflow '${name}' cancelled by client`)])
+                : await run;
+            record("ok");
+            return result;
+        } catch (err) {
+            record(signal?.aborted ? "cancelled" : "error");
+            throw err;
+        }
     }
 
     private unwrapMCPResult(result: any): any {
@@ -10,10 +10,41 @@ export const TIMEOUTS = {
     SHUTDOWN_GRACE_MS: 500,           // 500ms to wait for shutdown response
     FORCE_KILL_MS: 1_000,             // 1s before force killing child process
 
+    // Restart backoff for crashed stdio servers
+    RESTART_BACKOFF_BASE_MS: 500,     // first restart after 500ms, doubling per failure
+    RESTART_BACKOFF_MAX_MS: 10_000,   // never wait more than 10s between restarts
+
+    // Debounce for notifications/*/list_changed sent to the client
+    LIST_CHANGED_DEBOUNCE_MS: 100,
+
+    // Time the user has to answer a require-confirmation prompt
+    CONFIRMATION_TIMEOUT_MS: 300_000,
+
+    // Ended spans are exported at least this often
+    TRACE_EXPORT_INTERVAL_MS: 5_000,
+
+    // Result cache changes are written to disk after this delay (batched)
+    CACHE_SAVE_DELAY_MS: 1_000,
+
     // Execution limits
-    CODE_EXECUTION_TIMEOUT_MS: 60_000 // 60s for VM code execution
+    CODE_EXECUTION_TIMEOUT_MS: 60_000, // 60s for VM code execution
+    SESSION_IDLE_TTL_MS: 900_000       // 15min before an unused execute_code session is dropped
 } as const;
 
 export const LIMITS = {
-    CODE_SIZE_BYTES: 100_000          // 100KB max code size
+    CODE_SIZE_BYTES: 100_000,         // 100KB max code size
+    MAX_SERVER_FAILURES: 3,           // load attempts, or restarts after crashes, before a server stays failed
+
+    // execute_code worker threads
+    SANDBOX_WORKERS: 2,               // concurrent executions; further calls queue
+    SANDBOX_HEAP_MB: 256,             // old-generation heap per worker
+    SANDBOX_STACK_MB: 4,              // stack per worker
+    MAX_SESSIONS: 8,                  // persistent execute_code sessions (one worker each)
+
+    // Audit log rotation
+    AUDIT_LOG_MAX_BYTES: 10_000_000,  // 10MB per file
+    AUDIT_LOG_FILES: 5,               // rotated files kept besides the active one
+
+    // Tracing: spans per OTLP export request
+    TRACE_BATCH_SPANS: 512
 } as const;
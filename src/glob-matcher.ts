@@ -0,0 +1,24 @@
+// Minimal glob support for tool/server patterns in config ("*" and "?" only)
+
+const cache: Map<string, RegExp> = new Map();
+
+export function globToRegExp(pattern: string): RegExp {
+  let re = cache.get(pattern);
+  if (!re) {
+    const source = pattern
+      .split('')
+      .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    re = new RegExp(`^${source}$`);
+    cache.set(pattern, re);
+  }
+  return re;
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  return pattern === value || globToRegExp(pattern).test(value);
+}
+
+export function matchesAnyGlob(value: string, patterns: string[] | undefined): boolean {
+  return !!patterns && patterns.some((pattern) => matchesGlob(value, pattern));
+}
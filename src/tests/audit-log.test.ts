@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { strict as assert } from 'assert';
+import { AuditEntry, AuditLog, hashArguments } from '../components/audit-log.js';
+
+console.log('Running Audit Log Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+    return {
+        timestamp: '2026-01-01T00:00:00.000Z',
+        origin: 'execute_code',
+        server: 'fs',
+        tool: 'read_file',
+        argsHash: hashArguments({}),
+        durationMs: 1,
+        outcome: 'ok',
+        ...overrides
+    };
+}
+
+function tempLogPath(): string {
+    return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-audit-')), 'logs', 'audit.jsonl');
+}
+
+await test('Argument hashes ignore property order', async () => {
+    assert.strictEqual(hashArguments({ a: 1, b: [1, { c: 2, d: 3 }] }), hashArguments({ b: [1, { d: 3, c: 2 }], a: 1 }));
+    assert.notStrictEqual(hashArguments({ a: 1 }), hashArguments({ a: 2 }));
+});
+
+await test('Entries are appended as JSONL and filtered on query', async () => {
+    const file = tempLogPath();
+    const log = new AuditLog(file);
+    log.record(entry({ timestamp: '2026-01-01T00:00:00.000Z' }));
+    log.record(entry({ timestamp: '2026-01-02T00:00:00.000Z', server: 'k8s', tool: 'kubectl_get', origin: 'execute_workflow:k8s-detective' }));
+    log.record(entry({ timestamp: '2026-01-03T00:00:00.000Z', tool: 'delete_file', outcome: 'denied', error: 'denied by policy' }));
+    await log.flush();
+
+    assert.strictEqual(fs.readFileSync(file, 'utf-8').trim().split('\n').length, 3);
+    assert.deepStrictEqual((await log.query({ server: 'fs' })).map((e) => e.tool), ['read_file', 'delete_file']);
+    assert.deepStrictEqual((await log.query({ origin: 'execute_workflow:*' })).map((e) => e.server), ['k8s']);
+    assert.deepStrictEqual((await log.query({ outcome: 'denied' })).map((e) => e.tool), ['delete_file']);
+    assert.deepStrictEqual((await log.query({ since: '2026-01-02', until: '2026-01-03' })).map((e) => e.tool), ['kubectl_get']);
+    assert.deepStrictEqual((await log.query({ limit: 1 })).map((e) => e.tool), ['delete_file']);
+    await assert.rejects(log.query({ since: 'yesterday' }), /Invalid "since" timestamp/);
+});
+
+await test('Files rotate at maxBytes and the oldest rotation is dropped', async () => {
+    const file = tempLogPath();
+    const size = Buffer.byteLength(JSON.stringify(entry({ tool: 't0' })) + '\n');
+    const log = new AuditLog(file, { maxBytes: size * 2, maxFiles: 2 });
+    for (let i = 0; i < 7; i++) log.record(entry({ tool: `t${i}` }));
+    await log.flush();
+
+    assert.ok(fs.existsSync(`${file}.1`));
+    assert.ok(fs.existsSync(`${file}.2`));
+    assert.ok(!fs.existsSync(`${file}.3`));
+    // Two entries per file: t0/t1 were rotated out of the last kept file
+    assert.deepStrictEqual((await log.query()).map((e) => e.tool), ['t2', 't3', 't4', 't5', 't6']);
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
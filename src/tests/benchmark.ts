@@ -1,4 +1,5 @@
 import { TOONEncoder } from '../toon-encoder.js';
+import { compareTokens, loadTokenizer } from '../components/tokenizer.js';
 
 // Benchmark configuration
 const ITERATIONS = 1000;
@@ -155,22 +156,21 @@ for (const [key, dataset] of Object.entries(datasets)) {
     );
 }
 
-// Token estimation (rough approximation: 1 token ≈ 4 characters)
-console.log('\nEstimated Token Savings\n');
+// Token counts (BPE vocabulary from data/tokenizers, or ~4 bytes/token without one)
+const tokenizer = await loadTokenizer(process.env.TOKENIZER);
+const approx = tokenizer.exact ? '' : '~';
+console.log(`\nToken Savings (${tokenizer.name})\n`);
 console.log('Dataset'.padEnd(25) + 'JSON Tokens'.padEnd(15) + 'TOON Tokens'.padEnd(15) + 'Saved');
 console.log('-'.repeat(80));
 
 for (const [key, dataset] of Object.entries(datasets)) {
-    const { json, toon, savings } = measureSize(dataset.data);
-    const jsonTokens = Math.ceil(json / 4);
-    const toonTokens = Math.ceil(toon / 4);
-    const savedTokens = jsonTokens - toonTokens;
+    const tokens = compareTokens(tokenizer, JSON.stringify(dataset.data), TOONEncoder.encode(dataset.data));
 
     console.log(
         dataset.name.padEnd(25) +
-        `~${jsonTokens}`.padEnd(15) +
-        `~${toonTokens}`.padEnd(15) +
-        `~${savedTokens} (${savings.toFixed(1)}%)`
+        `${approx}${tokens.json}`.padEnd(15) +
+        `${approx}${tokens.toon}`.padEnd(15) +
+        `${approx}${tokens.json - tokens.toon} (${tokens.savings.toFixed(1)}%)`
     );
 }
 
@@ -0,0 +1,65 @@
+import { strict as assert } from 'assert';
+import { CallLimiter } from '../components/call-limiter.js';
+
+console.log('Running Call Limiter Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('maxConcurrency queues calls in order and drops cancelled waiters', async () => {
+    const limiter = new CallLimiter(2);
+    const first = await limiter.acquire();
+    const second = await limiter.acquire();
+    assert.strictEqual(first.waitedMs, 0);
+
+    const order: string[] = [];
+    const controller = new AbortController();
+    const third = limiter.acquire().then((permit) => { order.push('third'); return permit; });
+    const cancelled = limiter.acquire(controller.signal, 'tools/call slow on fake');
+    const fourth = limiter.acquire().then((permit) => { order.push('fourth'); return permit; });
+    assert.strictEqual(limiter.pending, 3);
+
+    controller.abort('user stopped');
+    await assert.rejects(cancelled, /tools\/call slow on fake cancelled after \d+ms in the queue: user stopped/);
+    assert.strictEqual(limiter.pending, 2);
+
+    first.release();
+    first.release();
+    (await third).release();
+    second.release();
+    (await fourth).release();
+    assert.deepStrictEqual(order, ['third', 'fourth']);
+    assert.strictEqual(limiter.pending, 0);
+});
+
+await test('rateLimit allows a burst, then spaces calls by the refill rate', async () => {
+    const limiter = new CallLimiter(undefined, { requests: 10, perSeconds: 1, burst: 2 });
+    const started = Date.now();
+    // The refill timer is unref'd (the orchestrator's transports keep the process alive)
+    const keepAlive = setInterval(() => { }, 1000);
+    const permits = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    clearInterval(keepAlive);
+    permits.forEach((permit) => permit.release());
+
+    assert.deepStrictEqual(permits.slice(0, 2).map((permit) => permit.waitedMs), [0, 0]);
+    assert.ok(permits[2].waitedMs >= 80, `third call waited ${permits[2].waitedMs}ms`);
+    assert.ok(Date.now() - started < 1000);
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
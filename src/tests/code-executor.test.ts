@@ -0,0 +1,361 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { strict as assert } from 'assert';
+import { ConfigManager } from '../components/config-manager.js';
+import { MCPServerManager } from '../components/mcp-server-manager.js';
+import { PathNormalizer } from '../components/path-normalizer.js';
+import { CodeExecutor } from '../components/code-executor.js';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-mcp-server.js');
+
+console.log('Running Code Executor Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-executor-'));
+const configPath = path.join(dir, 'mcp.json');
+fs.writeFileSync(configPath, JSON.stringify({
+    mcpServers: { fake: { command: process.execPath, args: [fixturePath], lazy: true } }
+}));
+const configManager = new ConfigManager(configPath);
+await configManager.loadConfig();
+const pathNormalizer = new PathNormalizer(dir);
+const serverManager = new MCPServerManager(configManager, pathNormalizer);
+await serverManager.loadServers();
+const executor = new CodeExecutor(serverManager, pathNormalizer);
+
+const toolRegistry = {
+    getToolAPI: async (serverName: string) => ({ content: [{ type: 'text', text: `api for ${serverName}` }] }),
+    searchTools: async (query: string) => ({ content: [{ type: 'text', text: `results for ${query}` }] })
+};
+
+function resultText(result: any): string {
+    return result.content[0].text;
+}
+
+await test('Tool proxies and helpers are bridged from the worker', async () => {
+    const result = await executor.executeCode(`
+        const echoed = await servers['fake'].echo({ value: 'hi' });
+        console.log('echoed', echoed);
+        const api = await get_tool_api({ serverName: 'fake' });
+        const found = await search_tools({ query: 'sleep' });
+        return { echoed: JSON.parse(echoed).value, api, found, toon: TOON.encode({ a: 1 }) };
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    const text = resultText(result);
+    assert.ok(text.includes('echoed {"value":"hi"}'), text);
+    assert.ok(text.includes('api for fake'), text);
+    assert.ok(text.includes('results for sleep'), text);
+    assert.ok(text.includes('• Operations: 1'), text);
+});
+
+await test('Errors from downstream calls reach the script', async () => {
+    const result = await executor.executeCode(`
+        try {
+            await (servers['fake'] as any).missing_tool({});
+        } catch (err) {
+            return err.message;
+        }
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    assert.ok(resultText(result).includes('not found on server'), resultText(result));
+});
+
+await test('Scripts can set a per-call timeout on tool proxies', async () => {
+    const result = await executor.executeCode(`
+        const quick = await servers['fake'].sleep({ ms: 10 }, { timeoutMs: 5000 });
+        const errors: string[] = [];
+        try { await servers['fake'].sleep({ ms: 500 }, { timeoutMs: 50 }); } catch (err: any) { errors.push(err.message); }
+        try { await servers['fake'].sleep({ ms: 1 }, { timeoutMs: -1 }); } catch (err: any) { errors.push(err.message); }
+        try { await servers['fake'].sleep({ ms: 1 }, { timeoutMs: 120_000 }); } catch (err: any) { errors.push(err.message); }
+        return { quick: JSON.parse(quick).slept, errors };
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    const text = resultText(result);
+    assert.ok(text.includes('quick: 10'), text);
+    assert.ok(text.includes('Tool timeout: sleep (50ms)'), text);
+    assert.ok(text.includes('options.timeoutMs for fake.sleep must be a positive number of milliseconds'), text);
+    assert.match(text, /options\.timeoutMs \(120000ms\) for fake\.sleep exceeds the \d+ms left of the 60000ms execute_code limit/);
+});
+
+await test('Runaway async loops are terminated and the pool recovers', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const started = Date.now();
+    const result = await executor.executeCode(`
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        while (true) { }
+    `, toolRegistry, { signal: controller.signal });
+    assert.ok(result.isError);
+    assert.ok(resultText(result).includes('cancelled'), resultText(result));
+    assert.ok(Date.now() - started < 5000);
+
+    const next = await executor.executeCode(`return 1 + 1;`, toolRegistry);
+    assert.ok(!next.isError, resultText(next));
+    assert.ok(resultText(next).includes('Result (TOON):\n2'), resultText(next));
+});
+
+await test('Detached bridge calls are cancelled when the execution returns', async () => {
+    const cancelledIds = async () => {
+        const result = await executor.executeCode(`return JSON.parse(await servers['fake'].cancelled_ids({}) as string).length;`, toolRegistry);
+        return Number(resultText(result).match(/Result \(TOON\):\n(\d+)/)![1]);
+    };
+    const before = await cancelledIds();
+    const result = await executor.executeCode(`
+        servers['fake'].sleep({ ms: 5000 }).then(() => console.log('too late'));
+        return 'early';
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    assert.ok(resultText(result).includes('Result (TOON):\nearly'), resultText(result));
+    assert.strictEqual(await cancelledIds(), before + 1);
+});
+
+await test('Executions waiting for a free worker can be cancelled', async () => {
+    const busy = [1, 2].map(() => executor.executeCode(`await new Promise((resolve) => setTimeout(resolve, 1000)); return 'busy';`, toolRegistry));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    const queued = await executor.executeCode(`return 'queued';`, toolRegistry, { signal: controller.signal });
+    assert.ok(queued.isError);
+    assert.ok(resultText(queued).includes('while waiting for a sandbox worker'), resultText(queued));
+    assert.ok(Date.now() - started < 900);
+    for (const result of await Promise.all(busy)) assert.ok(!result.isError, resultText(result));
+});
+
+await test('Memory exhaustion fails the execution, not the orchestrator', async () => {
+    const result = await executor.executeCode(`
+        const hoard = [];
+        while (true) hoard.push(new Array(100000).fill({ x: Math.random() }));
+    `, toolRegistry);
+    assert.ok(result.isError);
+    assert.ok(resultText(result).includes('memory limit'), resultText(result));
+
+    const next = await executor.executeCode(`return 'still alive';`, toolRegistry);
+    assert.ok(!next.isError, resultText(next));
+});
+
+await test('Timers from a finished run do not leak into the next one', async () => {
+    await executor.executeCode(`
+        setTimeout(() => console.log('late'), 50);
+        return 'first';
+    `, toolRegistry);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const result = await executor.executeCode(`
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        return 'second';
+    `, toolRegistry);
+    assert.ok(!resultText(result).includes('late'), resultText(result));
+});
+
+await test('TypeScript submissions are transpiled before running', async () => {
+    const result = await executor.executeCode(`
+        interface Echo { value: string }
+        const reply: Echo = JSON.parse(await servers['fake'].echo({ value: 'typed' }) as string);
+        const double = (n: number): number => n * 2;
+        return { value: reply.value, doubled: double(21) };
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    assert.ok(resultText(result).includes('value: typed'), resultText(result));
+    assert.ok(resultText(result).includes('doubled: 42'), resultText(result));
+});
+
+await test('Syntax errors are reported at the submission position', async () => {
+    const result = await executor.executeCode(`const ok = 1;\nlet broken: = 5;`, toolRegistry);
+    assert.ok(result.isError);
+    assert.ok(resultText(result).includes('TS1110 at line 2, column 13: Type expected.'), resultText(result));
+});
+
+await test('Runtime errors are mapped back to the submission line', async () => {
+    const result = await executor.executeCode([
+        'interface Removed {',
+        '    a: number;',
+        '}',
+        'const value: number = 1;',
+        'throw new Error(`boom ${value}`);'
+    ].join('\n'), toolRegistry);
+    assert.ok(result.isError);
+    assert.ok(resultText(result).includes('boom 1 (line 5, column 7)'), resultText(result));
+});
+
+await test('Submissions can be type-checked against loaded tool schemas', async () => {
+    await serverManager.ensureServerLoaded('fake');
+    const wrongType = await executor.executeCode(`
+        const ok = await servers['fake'].echo({ value: 'fine' });
+        await servers['fake'].sleep({ ms: 'soon' });
+    `, toolRegistry, { typeCheck: true });
+    assert.ok(wrongType.isError);
+    assert.ok(resultText(wrongType).includes('Type check'), resultText(wrongType));
+    assert.ok(resultText(wrongType).includes('at line 3'), resultText(wrongType));
+
+    const typo = await executor.executeCode(`await servers['fake'].ecoh({ value: 'x' });`, toolRegistry, { typeCheck: true });
+    assert.ok(resultText(typo).includes("Property 'ecoh' does not exist"), resultText(typo));
+
+    // Plain JavaScript that TypeScript would reject runs unless asked otherwise
+    const unchecked = await executor.executeCode(`
+        const out = {};
+        out.count = 1;
+        let total = 0;
+        total = 'a';
+        function f() { return out.count; }
+        return f(1);
+    `, toolRegistry);
+    assert.ok(!unchecked.isError, resultText(unchecked));
+
+    // Undeclared globals are allowed so sessions keep working
+    const globals = await executor.executeCode(`cache = [1, 2]; globalThis.other = 3; return cache.length;`, toolRegistry, { typeCheck: true });
+    assert.ok(!globals.isError, resultText(globals));
+});
+
+await test('Arguments are validated against inputSchema before dispatch', async () => {
+    const result = await executor.executeCode(`
+        const input = JSON.parse('{"ms": "soon", "extra": true}');
+        try {
+            await servers['fake'].sleep(input);
+        } catch (err) {
+            return err.message;
+        }
+    `, toolRegistry);
+    assert.ok(!result.isError, resultText(result));
+    const text = resultText(result);
+    assert.ok(text.includes('Invalid arguments for fake.sleep'), text);
+    assert.ok(text.includes('- ms: expected number, got string'), text);
+    assert.ok(text.includes('Expected schema (TOON)'), text);
+    assert.ok(text.includes('• Operations: 1'), text);
+});
+
+await test('Sessions keep globals between calls', async () => {
+    const first = await executor.executeCode(`
+        counter = 1;
+        echoServer = servers['fake'];
+        return counter;
+    `, toolRegistry, { sessionId: 'alpha' });
+    assert.ok(resultText(first).includes('Session: alpha (new)'), resultText(first));
+
+    const second = await executor.executeCode(`
+        counter += 1;
+        const echoed = JSON.parse(await echoServer.echo({ value: 'again' }));
+        return { counter, echoed: echoed.value };
+    `, toolRegistry, { sessionId: 'alpha' });
+    assert.ok(!second.isError, resultText(second));
+    assert.ok(resultText(second).includes('counter: 2'), resultText(second));
+    assert.ok(resultText(second).includes('echoed: again'), resultText(second));
+    assert.ok(resultText(second).includes('Session: alpha (resumed)'), resultText(second));
+
+    const unrelated = await executor.executeCode(`return typeof counter;`, toolRegistry);
+    assert.ok(resultText(unrelated).includes('undefined'), resultText(unrelated));
+
+    const sessions = executor.listSessions();
+    assert.strictEqual(sessions.length, 1);
+    assert.strictEqual(sessions[0].sessionId, 'alpha');
+    assert.strictEqual(sessions[0].executions, 2);
+    assert.strictEqual(sessions[0].busy, false);
+
+    assert.strictEqual(executor.closeSession('alpha'), true);
+    assert.strictEqual(executor.closeSession('alpha'), false);
+    const fresh = await executor.executeCode(`return typeof counter;`, toolRegistry, { sessionId: 'alpha' });
+    assert.ok(resultText(fresh).includes('undefined'), resultText(fresh));
+    executor.closeSession('alpha');
+});
+
+await test('Top-level declarations persist in a session', async () => {
+    const first = await executor.executeCode(`
+        const limit: number = 2;
+        let { total, tags: [firstTag] } = { total: 10, tags: ['a', 'b'] };
+        function double(value: number) { return value * 2; }
+        class Box { constructor(public value: number) { } }
+        enum Color { Red, Green }
+        namespace Units { export const perBox = 3; }
+        total += limit;
+        return total;
+    `, toolRegistry, { sessionId: 'delta' });
+    assert.ok(!first.isError, resultText(first));
+    assert.ok(resultText(first).includes('Result (TOON):\n12'), resultText(first));
+
+    // Declaring without an initializer keeps the value an earlier submission set
+    const second = await executor.executeCode(`
+        var total: number;
+        let unset;
+        const box = new Box(double(total));
+        return { value: box.value, firstTag, limit, green: Color.Green, perBox: Units.perBox, unset: typeof unset };
+    `, toolRegistry, { sessionId: 'delta' });
+    assert.ok(!second.isError, resultText(second));
+    assert.ok(resultText(second).includes('value: 24'), resultText(second));
+    assert.ok(resultText(second).includes('firstTag: a'), resultText(second));
+    assert.ok(resultText(second).includes('green: 1'), resultText(second));
+    assert.ok(resultText(second).includes('perBox: 3'), resultText(second));
+    assert.ok(resultText(second).includes('unset: undefined'), resultText(second));
+
+    const failing = await executor.executeCode(`const late = 1;\nthrow new Error('boom');`, toolRegistry, { sessionId: 'delta' });
+    assert.ok(resultText(failing).includes('boom (line 2, column 7)'), resultText(failing));
+    executor.closeSession('delta');
+});
+
+await test('Submissions to one session run in order', async () => {
+    const slow = executor.executeCode(`
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        order = ['slow'];
+    `, toolRegistry, { sessionId: 'beta' });
+    const fast = executor.executeCode(`
+        order.push('fast');
+        return order;
+    `, toolRegistry, { sessionId: 'beta' });
+    await slow;
+    const result = await fast;
+    assert.ok(!result.isError, resultText(result));
+    assert.ok(resultText(result).includes('slow') && resultText(result).includes('fast'), resultText(result));
+    executor.closeSession('beta');
+});
+
+await test('A submission cancelled while queued for its session gives up its turn', async () => {
+    const slow = executor.executeCode(`
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        order = ['slow'];
+    `, toolRegistry, { sessionId: 'epsilon' });
+    const controller = new AbortController();
+    const cancelled = executor.executeCode(`order.push('cancelled');`, toolRegistry, { sessionId: 'epsilon', signal: controller.signal });
+    const last = executor.executeCode(`order.push('last'); return order;`, toolRegistry, { sessionId: 'epsilon' });
+    setTimeout(() => controller.abort(), 50);
+
+    const aborted = await cancelled;
+    assert.ok(aborted.isError);
+    assert.ok(resultText(aborted).includes('while waiting for session "epsilon"'), resultText(aborted));
+    await slow;
+    const result = await last;
+    assert.ok(resultText(result).includes('slow,last'), resultText(result));
+    assert.strictEqual(executor.listSessions().find((s) => s.sessionId === 'epsilon')?.executions, 2);
+    executor.closeSession('epsilon');
+});
+
+await test('A terminated session is reset', async () => {
+    await executor.executeCode(`kept = 'value';`, toolRegistry, { sessionId: 'gamma' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const aborted = await executor.executeCode(`while (true) { }`, toolRegistry, { sessionId: 'gamma', signal: controller.signal });
+    assert.ok(aborted.isError);
+    assert.ok(resultText(aborted).includes('was reset'), resultText(aborted));
+    assert.deepStrictEqual(executor.listSessions().map((s) => s.sessionId), []);
+});
+
+await executor.shutdown();
+await serverManager.shutdown();
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,132 @@
+// Minimal line-delimited JSON-RPC MCP server used by the integration tests.
+import * as readline from 'readline';
+
+const tools = [
+    { name: 'echo', description: 'Returns its arguments', inputSchema: { type: 'object', properties: { value: { type: 'string' } } }, annotations: { readOnlyHint: true } },
+    { name: 'sleep', description: 'Resolves after ms milliseconds', inputSchema: { type: 'object', properties: { ms: { type: 'number' } }, required: ['ms'] }, annotations: { readOnlyHint: true } },
+    { name: 'notify', description: 'Emits a notification before answering', inputSchema: { type: 'object', properties: {} } },
+    { name: 'crash', description: 'Exits the process immediately', inputSchema: { type: 'object', properties: {} } },
+    { name: 'cancelled_ids', description: 'Lists request ids the client cancelled', inputSchema: { type: 'object', properties: {} } },
+    { name: 'steps', description: 'Emits notifications/progress for each step when asked for progress', inputSchema: { type: 'object', properties: { count: { type: 'number' } }, required: ['count'] } },
+    { name: 'add_tool', description: 'Registers a new tool and emits tools/list_changed', inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } },
+    { name: 'call_counts', description: 'Counts the tools/call requests received per tool', inputSchema: { type: 'object', properties: {} }, annotations: { readOnlyHint: true } },
+    { name: 'trace_context', description: 'Returns the traceparent the call arrived with', inputSchema: { type: 'object', properties: {} }, annotations: { readOnlyHint: true } }
+];
+
+const resources = [
+    { uri: 'memory://config', name: 'config', mimeType: 'application/json' },
+    { uri: 'memory://notes', name: 'notes', mimeType: 'text/plain' }
+];
+
+const resourceContents: Record<string, { mimeType: string; text: string }> = {
+    'memory://config': { mimeType: 'application/json', text: JSON.stringify({ users: [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }] }) },
+    'memory://notes': { mimeType: 'text/plain', text: 'remember the milk' }
+};
+
+const cancelled = new Set<number>();
+const callCounts: Record<string, number> = {};
+
+function send(msg: any) {
+    // Responses to cancelled requests are dropped, as the spec asks
+    if (msg.id !== undefined && cancelled.has(msg.id)) return;
+    process.stdout.write(JSON.stringify(msg) + '\n');
+}
+
+function text(value: unknown) {
+    return { content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }] };
+}
+
+function handleToolCall(id: number, name: string, args: any, meta: any = {}) {
+    const progressToken = meta.progressToken;
+    callCounts[name] = (callCounts[name] || 0) + 1;
+    switch (name) {
+        case 'echo':
+            send({ jsonrpc: '2.0', id, result: text(args) });
+            return;
+        case 'sleep':
+            setTimeout(() => send({ jsonrpc: '2.0', id, result: text({ slept: args.ms }) }), args.ms);
+            return;
+        case 'notify':
+            send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'hello' } });
+            send({ jsonrpc: '2.0', id, result: text('notified') });
+            return;
+        case 'steps':
+            for (let step = 1; step <= args.count; step++) {
+                if (progressToken !== undefined) {
+                    send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress: step, total: args.count, message: `step ${step}` } });
+                }
+            }
+            send({ jsonrpc: '2.0', id, result: text({ steps: args.count }) });
+            return;
+        case 'cancelled_ids':
+            send({ jsonrpc: '2.0', id, result: text(Array.from(cancelled)) });
+            return;
+        case 'add_tool':
+            tools.push({ name: args.name, description: 'Dynamically added', inputSchema: { type: 'object', properties: {} } });
+            send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+            send({ jsonrpc: '2.0', id, result: text('added') });
+            return;
+        case 'call_counts':
+            send({ jsonrpc: '2.0', id, result: text(callCounts) });
+            return;
+        case 'trace_context':
+            send({ jsonrpc: '2.0', id, result: text({ traceparent: meta.traceparent ?? null }) });
+            return;
+        case 'crash':
+            process.exit(3);
+        default:
+            send({ jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${name}` } });
+    }
+}
+
+const rl = readline.createInterface({ input: process.stdin });
+rl.on('line', (line) => {
+    if (!line.trim()) return;
+    const msg = JSON.parse(line);
+    if (msg.method === 'notifications/cancelled') {
+        cancelled.add(msg.params.requestId);
+        return;
+    }
+    if (msg.id === undefined) return;
+
+    switch (msg.method) {
+        case 'initialize':
+            send({
+                jsonrpc: '2.0', id: msg.id,
+                result: { protocolVersion: '2024-11-05', capabilities: { tools: { listChanged: true }, resources: {}, prompts: {} }, serverInfo: { name: 'fake-mcp', version: '0.0.1' } }
+            });
+            break;
+        case 'tools/list':
+            send({ jsonrpc: '2.0', id: msg.id, result: { tools } });
+            break;
+        case 'resources/list':
+            send({ jsonrpc: '2.0', id: msg.id, result: { resources } });
+            break;
+        case 'resources/templates/list':
+            send({ jsonrpc: '2.0', id: msg.id, result: { resourceTemplates: [{ uriTemplate: 'memory://{key}', name: 'memory' }] } });
+            break;
+        case 'resources/read': {
+            const content = resourceContents[msg.params.uri];
+            if (!content) {
+                send({ jsonrpc: '2.0', id: msg.id, error: { code: -32002, message: `Resource not found: ${msg.params.uri}` } });
+            } else {
+                send({ jsonrpc: '2.0', id: msg.id, result: { contents: [{ uri: msg.params.uri, ...content }] } });
+            }
+            break;
+        }
+        case 'prompts/list':
+            send({ jsonrpc: '2.0', id: msg.id, result: { prompts: [{ name: 'summarize', description: 'Summarize a topic', arguments: [{ name: 'topic', required: true }] }] } });
+            break;
+        case 'prompts/get':
+            send({
+                jsonrpc: '2.0', id: msg.id,
+                result: { messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${msg.params.arguments?.topic}` } }] }
+            });
+            break;
+        case 'tools/call':
+            handleToolCall(msg.id, msg.params.name, msg.params.arguments || {}, msg.params._meta);
+            break;
+        default:
+            send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not found: ${msg.method}` } });
+    }
+});
@@ -0,0 +1,239 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpTransport } from '../components/http-transport.js';
+import { AuthProvider } from '../components/auth-provider.js';
+
+console.log('Running HTTP Transport Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve) => {
+        let body = '';
+        req.on('data', (chunk) => body += chunk);
+        req.on('end', () => resolve(body ? JSON.parse(body) : undefined));
+    });
+}
+
+async function listen(handler: http.RequestListener): Promise<{ server: http.Server; url: string }> {
+    const server = http.createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { server, url: `http://127.0.0.1:${port}/mcp` };
+}
+
+function initializeResult(id: number, protocolVersion: string) {
+    return { jsonrpc: '2.0', id, result: { protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'remote', version: '1.0.0' } } };
+}
+
+await test('Streamable HTTP negotiates a session and parses SSE responses', async () => {
+    const seenSessions: Array<string | undefined> = [];
+    const { server, url } = await listen(async (req, res) => {
+        if (req.method === 'DELETE') {
+            res.writeHead(204).end();
+            return;
+        }
+        const msg = await readBody(req);
+        seenSessions.push(req.headers['mcp-session-id'] as string | undefined);
+        if (msg.method === 'initialize') {
+            res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'sess-1' });
+            res.end(JSON.stringify(initializeResult(msg.id, '2025-03-26')));
+        } else if (msg.id === undefined) {
+            res.writeHead(202).end();
+        } else {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } })}\n\n`);
+            res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { echoed: msg.params } })}\n\n`);
+            res.end();
+        }
+    });
+
+    const transport = new HttpTransport(url, 'remote');
+    const progress: any[] = [];
+    transport.onNotification('notifications/progress', (params) => progress.push(params));
+
+    const init = await transport.initialize({ name: 'test', version: '0' }, { timeoutMs: 2000 });
+    assert.strictEqual(init.serverInfo.name, 'remote');
+    assert.strictEqual(transport.mode, 'streamable-http');
+    assert.strictEqual(transport.session, 'sess-1');
+
+    const result = await transport.request('tools/call', { name: 'x' }, { timeoutMs: 2000 });
+    assert.deepStrictEqual(result, { echoed: { name: 'x' } });
+    assert.deepStrictEqual(progress, [{ progress: 1 }]);
+    assert.deepStrictEqual(seenSessions, [undefined, 'sess-1']);
+
+    transport.close();
+    server.closeAllConnections();
+    server.close();
+});
+
+await test('Falls back to the 2024-11-05 SSE transport when POST is rejected', async () => {
+    let stream: http.ServerResponse | undefined;
+    const { server, url } = await listen(async (req, res) => {
+        if (req.method === 'GET') {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(`event: endpoint\ndata: /messages?sessionId=abc\n\n`);
+            stream = res;
+            return;
+        }
+        if (req.url === '/mcp') {
+            res.writeHead(405).end('Method Not Allowed');
+            return;
+        }
+        const msg = await readBody(req);
+        res.writeHead(202).end('Accepted');
+        assert.strictEqual(req.url, '/messages?sessionId=abc');
+        if (msg.id === undefined) return;
+        const reply = msg.method === 'initialize'
+            ? initializeResult(msg.id, '2024-11-05')
+            : { jsonrpc: '2.0', id: msg.id, result: { tools: [{ name: 'legacy-tool' }] } };
+        stream!.write(`event: message\ndata: ${JSON.stringify(reply)}\n\n`);
+    });
+
+    const transport = new HttpTransport(url, 'legacy');
+    const init = await transport.initialize({ name: 'test', version: '0' }, { timeoutMs: 2000 });
+    assert.strictEqual(transport.mode, 'sse');
+    assert.strictEqual(init.protocolVersion, '2024-11-05');
+
+    const list = await transport.request('tools/list', undefined, { timeoutMs: 2000 });
+    assert.strictEqual(list.tools[0].name, 'legacy-tool');
+
+    transport.close();
+    server.closeAllConnections();
+    server.close();
+});
+
+await test('JSON-RPC errors and HTTP failures reject the request', async () => {
+    const { server, url } = await listen(async (req, res) => {
+        const msg = await readBody(req);
+        if (msg.method === 'boom') {
+            res.writeHead(500).end('kaput');
+            return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, error: { code: -32602, message: 'bad args' } }));
+    });
+
+    const transport = new HttpTransport(url, 'errors');
+    await assert.rejects(transport.request('tools/call', {}, { timeoutMs: 2000 }), /bad args/);
+    await assert.rejects(transport.request('boom', {}, { timeoutMs: 2000 }), /\(500\): kaput/);
+
+    transport.close();
+    server.closeAllConnections();
+    server.close();
+});
+
+await test('Auth headers are sent and tokens refresh after 401', async () => {
+    const tokenFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-auth-')), 'token');
+    fs.writeFileSync(tokenFile, 'stale\n');
+    const seen: Array<{ auth?: string; tenant?: string }> = [];
+    const { server, url } = await listen(async (req, res) => {
+        const msg = await readBody(req);
+        seen.push({ auth: req.headers['authorization'], tenant: req.headers['x-tenant'] as string });
+        if (req.headers['authorization'] !== 'Bearer fresh') {
+            res.writeHead(401).end('unauthorized');
+            return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { ok: true } }));
+    });
+
+    const auth = new AuthProvider('secured', { 'X-Tenant': 'acme' }, { tokenCommand: `cat "${tokenFile}"` });
+    assert.deepStrictEqual(await auth.getHeaders(), { 'x-tenant': 'acme', authorization: 'Bearer stale' });
+
+    fs.writeFileSync(tokenFile, 'fresh\n');
+    const transport = new HttpTransport(url, 'secured', auth);
+    const result = await transport.request('tools/list', undefined, { timeoutMs: 5000 });
+    assert.deepStrictEqual(result, { ok: true });
+    assert.deepStrictEqual(seen.map((s) => s.auth), ['Bearer stale', 'Bearer fresh']);
+    assert.ok(seen.every((s) => s.tenant === 'acme'));
+
+    const staticAuth = new AuthProvider('static', {}, { token: 'abc', header: 'X-Api-Key', scheme: '' });
+    assert.deepStrictEqual(await staticAuth.getHeaders(), { 'x-api-key': 'abc' });
+    assert.strictEqual(await staticAuth.refresh(), false);
+
+    const overridden = new AuthProvider('overridden', { Authorization: 'Basic old', 'X-API-KEY': 'static' }, { token: 'abc' });
+    assert.deepStrictEqual(await overridden.getHeaders(), { authorization: 'Bearer abc', 'x-api-key': 'static' });
+
+    transport.close();
+    server.closeAllConnections();
+    server.close();
+});
+
+await test('An expired session is renewed once and the request retried', async () => {
+    let sessions = 0;
+    let live: string | undefined;
+    let acceptInitialize = true;
+    const methods: string[] = [];
+    const { server, url } = await listen(async (req, res) => {
+        if (req.method === 'DELETE') {
+            res.writeHead(204).end();
+            return;
+        }
+        const msg = await readBody(req);
+        methods.push(msg.method);
+        if (msg.method === 'initialize') {
+            if (!acceptInitialize) {
+                res.writeHead(503).end('unavailable');
+                return;
+            }
+            live = `sess-${++sessions}`;
+            res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': live });
+            res.end(JSON.stringify(initializeResult(msg.id, '2025-03-26')));
+        } else if (req.headers['mcp-session-id'] !== live) {
+            res.writeHead(404).end('unknown session');
+        } else if (msg.id === undefined) {
+            res.writeHead(202).end();
+        } else {
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { session: live } }));
+        }
+    });
+
+    const transport = new HttpTransport(url, 'flaky');
+    await transport.initialize({ name: 'test', version: '0' }, { timeoutMs: 2000 });
+    transport.notify('notifications/initialized');
+    assert.deepStrictEqual(await transport.request('tools/list', undefined, { timeoutMs: 2000 }), { session: 'sess-1' });
+
+    // The server forgets the session; concurrent requests share one renewal
+    live = undefined;
+    const results = await Promise.all([
+        transport.request('tools/list', undefined, { timeoutMs: 2000 }),
+        transport.request('tools/list', undefined, { timeoutMs: 2000 })
+    ]);
+    assert.deepStrictEqual(results, [{ session: 'sess-2' }, { session: 'sess-2' }]);
+    assert.strictEqual(transport.session, 'sess-2');
+    assert.strictEqual(methods.filter((m) => m === 'initialize').length, 2);
+    assert.ok(!transport.closed);
+
+    live = undefined;
+    acceptInitialize = false;
+    await assert.rejects(transport.request('tools/list', undefined, { timeoutMs: 2000 }), /\(503\)/);
+    assert.ok(transport.closed);
+
+    server.closeAllConnections();
+    server.close();
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
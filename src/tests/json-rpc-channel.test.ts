@@ -0,0 +1,148 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { strict as assert } from 'assert';
+import { JsonRpcChannel, JsonRpcError, RequestCancelledError } from '../components/json-rpc-channel.js';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-mcp-server.js');
+
+console.log('Running JSON-RPC Channel Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+function startFake() {
+    const child = spawn(process.execPath, [fixturePath], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const channel = new JsonRpcChannel(child, 'fake');
+    return { child, channel };
+}
+
+await test('Handshake over channel', async () => {
+    const { child, channel } = startFake();
+    const init = await channel.request('initialize', { protocolVersion: '2024-11-05', capabilities: {} }, { timeoutMs: 5000 });
+    assert.strictEqual(init.serverInfo.name, 'fake-mcp');
+    const list = await channel.request('tools/list');
+    assert.ok(list.tools.some((t: any) => t.name === 'echo'));
+    child.kill();
+});
+
+await test('Concurrent calls are routed by id', async () => {
+    const { child, channel } = startFake();
+    const calls = Array.from({ length: 25 }, (_, i) =>
+        channel.request('tools/call', { name: i % 2 ? 'echo' : 'sleep', arguments: i % 2 ? { value: `v${i}` } : { ms: 25 - i } })
+    );
+    const results = await Promise.all(calls);
+    results.forEach((result, i) => {
+        const payload = JSON.parse(result.content[0].text);
+        if (i % 2) assert.strictEqual(payload.value, `v${i}`);
+        else assert.strictEqual(payload.slept, 25 - i);
+    });
+    assert.strictEqual(channel.pendingCount, 0);
+    child.kill();
+});
+
+await test('Server notifications reach subscribers', async () => {
+    const { child, channel } = startFake();
+    const received: any[] = [];
+    channel.onNotification('notifications/message', (params) => received.push(params));
+    await channel.request('tools/call', { name: 'notify', arguments: {} });
+    assert.strictEqual(received.length, 1);
+    assert.strictEqual(received[0].data, 'hello');
+    child.kill();
+});
+
+await test('Error responses reject with JsonRpcError', async () => {
+    const { child, channel } = startFake();
+    await assert.rejects(channel.request('tools/call', { name: 'missing', arguments: {} }), (err: any) => {
+        return err instanceof JsonRpcError && err.code === -32602 && err.message.includes('Unknown tool');
+    });
+    child.kill();
+});
+
+await test('Request timeout rejects and clears pending entry', async () => {
+    const { child, channel } = startFake();
+    await assert.rejects(
+        channel.request('tools/call', { name: 'sleep', arguments: { ms: 500 } }, { timeoutMs: 20, timeoutMessage: 'too slow' }),
+        /too slow/
+    );
+    assert.strictEqual(channel.pendingCount, 0);
+    child.kill();
+});
+
+await test('Aborting a request forwards notifications/cancelled', async () => {
+    const { child, channel } = startFake();
+    const controller = new AbortController();
+    const slow = channel.request('tools/call', { name: 'sleep', arguments: { ms: 2000 } }, { signal: controller.signal });
+    setTimeout(() => controller.abort('user gave up'), 20);
+    await assert.rejects(slow, (err: any) => err instanceof RequestCancelledError && /user gave up/.test(err.message));
+    assert.strictEqual(channel.pendingCount, 0);
+
+    const ids = await channel.request('tools/call', { name: 'cancelled_ids', arguments: {} });
+    assert.deepStrictEqual(JSON.parse(ids.content[0].text), [1]);
+    await assert.rejects(channel.request('tools/list', undefined, { signal: AbortSignal.abort() }), RequestCancelledError);
+    child.kill();
+});
+
+await test('Progress notifications are routed to the requesting call', async () => {
+    const { child, channel } = startFake();
+    const updates: any[] = [];
+    const result = await channel.request('tools/call', { name: 'steps', arguments: { count: 3 } }, {
+        onProgress: (update) => updates.push(update)
+    });
+    assert.deepStrictEqual(JSON.parse(result.content[0].text), { steps: 3 });
+    assert.deepStrictEqual(updates.map((u) => u.progress), [1, 2, 3]);
+    assert.strictEqual(updates[2].total, 3);
+    assert.strictEqual(updates[2].message, 'step 3');
+    child.kill();
+});
+
+await test('Child exit rejects all pending calls', async () => {
+    const { channel } = startFake();
+    const slow = channel.request('tools/call', { name: 'sleep', arguments: { ms: 5000 } });
+    const crash = channel.request('tools/call', { name: 'crash', arguments: {} });
+    await assert.rejects(slow, /exited \(code 3\)/);
+    await assert.rejects(crash, /exited/);
+    assert.ok(channel.closed);
+    await assert.rejects(channel.request('tools/list'), /exited/);
+});
+
+await test('Writing to a dead server rejects instead of crashing', async () => {
+    // A live process whose stdin is already closed turns the next write into EPIPE
+    const child = spawn(process.execPath, ['-e', 'require("fs").closeSync(0); setInterval(() => { }, 1000)'], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const channel = new JsonRpcChannel(child, 'deaf');
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await assert.rejects(channel.request('tools/list', undefined, { timeoutMs: 5000 }), /EPIPE|not writable/);
+    assert.ok(channel.closed);
+    child.kill();
+
+    const { child: fake, channel: fakeChannel } = startFake();
+    await fakeChannel.request('tools/list', undefined, { timeoutMs: 5000 });
+    fake.kill('SIGKILL');
+    await assert.rejects(fakeChannel.request('tools/call', { name: 'echo', arguments: {} }, { timeoutMs: 5000 }), /exited|EPIPE|not writable/);
+});
+
+await test('Multi-byte characters split across stdout chunks are decoded', async () => {
+    const { child, channel } = startFake();
+    const value = 'é🌍'.repeat(40_000);
+    const result = await channel.request('tools/call', { name: 'echo', arguments: { value } }, { timeoutMs: 5000 });
+    assert.strictEqual(JSON.parse(result.content[0].text).value, value);
+    child.kill();
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { strict as assert } from 'assert';
+import { ConfigManager } from '../components/config-manager.js';
+import { MCPServerManager } from '../components/mcp-server-manager.js';
+import { PathNormalizer } from '../components/path-normalizer.js';
+import { LIMITS } from '../constants.js';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-mcp-server.js');
+
+console.log('Running MCP Server Manager Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+async function createManager(servers: Record<string, any>, extraConfig: Record<string, any> = {}) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-manager-'));
+    const configPath = path.join(dir, 'mcp.json');
+    fs.writeFileSync(configPath, JSON.stringify({ mcpServers: servers, ...extraConfig }));
+    const configManager = new ConfigManager(configPath);
+    await configManager.loadConfig();
+    const manager = new MCPServerManager(configManager, new PathNormalizer(dir));
+    return manager;
+}
+
+function fakeServer(extra: Record<string, any> = {}) {
+    return { command: process.execPath, args: [fixturePath], lazy: true, ...extra };
+}
+
+function unwrap(result: any) {
+    return JSON.parse(result.content[0].text);
+}
+
+await test('Crashed server restarts and replays idempotent in-flight calls', async () => {
+    const manager = await createManager({ fake: fakeServer() });
+    const server = await manager.ensureServerLoaded('fake');
+
+    const inFlight = server.call('sleep', { ms: 300 });
+    await assert.rejects(server.call('crash', {}), /exited/);
+    assert.strictEqual(manager.getServerState('fake'), 'restarting');
+
+    assert.deepStrictEqual(unwrap(await inFlight), { slept: 300 });
+    assert.strictEqual(manager.getServerState('fake'), 'ready');
+
+    const restarted = await manager.ensureServerLoaded('fake');
+    assert.notStrictEqual(restarted, server);
+    assert.deepStrictEqual(unwrap(await restarted.call('echo', { value: 'ok' })), { value: 'ok' });
+    await manager.shutdown();
+});
+
+await test('A replayed call is confirmed and audited once', async () => {
+    const auditPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-audit-')), 'audit.jsonl');
+    const manager = await createManager({ fake: fakeServer() }, {
+        audit: { path: auditPath },
+        policy: { rules: [{ server: 'fake', tools: ['sleep'], action: 'require-confirmation' }] }
+    });
+    let confirmations = 0;
+    manager.setConfirmationHandler(async () => {
+        confirmations++;
+        return true;
+    });
+    const server = await manager.ensureServerLoaded('fake');
+
+    const inFlight = server.call('sleep', { ms: 300 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await assert.rejects(server.call('crash', {}), /exited/);
+    assert.deepStrictEqual(unwrap(await inFlight), { slept: 300 });
+
+    assert.strictEqual(confirmations, 1);
+    const entries = await manager.auditLog!.query({ tool: 'sleep' });
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].outcome, 'ok');
+    await manager.shutdown();
+});
+
+await test('Repeated crashes leave the server failed', async () => {
+    const manager = await createManager({ fake: fakeServer() });
+    for (let i = 0; i <= LIMITS.MAX_SERVER_FAILURES; i++) {
+        const server = await manager.ensureServerLoaded('fake');
+        await assert.rejects(server.call('crash', {}), /exited/);
+    }
+    await assert.rejects(manager.ensureServerLoaded('fake'), /could not be restarted|failed to load/);
+    assert.strictEqual(manager.getServerState('fake'), 'failed');
+    await manager.shutdown();
+});
+
+await test('Concurrent identical calls share one downstream request', async () => {
+    const manager = await createManager({ fake: fakeServer(), solo: fakeServer({ noCoalesceTools: ['sl*'] }) });
+    const server = await manager.ensureServerLoaded('fake');
+
+    const results = await Promise.all([
+        server.call('sleep', { ms: 100 }),
+        server.call('sleep', { ms: 100 }),
+        server.call('sleep', { ms: 100 }),
+        server.call('sleep', { ms: 50 })
+    ]);
+    assert.deepStrictEqual(results.map((result) => unwrap(result).slept), [100, 100, 100, 50]);
+    assert.notStrictEqual(results[0], results[1]);
+    assert.strictEqual(unwrap(await server.call('call_counts', {})).sleep, 2);
+    assert.deepStrictEqual(manager.metrics.registry.samples('codemode_coalesced_calls_total').map((s) => s.value), [2]);
+
+    // A caller that gives up leaves the shared request running for the others
+    const controller = new AbortController();
+    const abandoned = server.call('sleep', { ms: 150 }, { signal: controller.signal });
+    const kept = server.call('sleep', { ms: 150 });
+    controller.abort();
+    await assert.rejects(abandoned, /cancelled/);
+    assert.deepStrictEqual(unwrap(await kept), { slept: 150 });
+    assert.deepStrictEqual(unwrap(await server.call('cancelled_ids', {})), []);
+
+    // A caller with its own timeout does not share a request bound by another timeout
+    const [shortLived, patient] = await Promise.allSettled([
+        server.call('sleep', { ms: 150 }, { timeoutMs: 50 }),
+        server.call('sleep', { ms: 150 }, { timeoutMs: 1_000 })
+    ]);
+    assert.strictEqual(shortLived.status, 'rejected');
+    assert.deepStrictEqual(unwrap((patient as PromiseFulfilledResult<any>).value), { slept: 150 });
+
+    const solo = await manager.ensureServerLoaded('solo');
+    await Promise.all([solo.call('sleep', { ms: 50 }), solo.call('sleep', { ms: 50 })]);
+    assert.strictEqual(unwrap(await solo.call('call_counts', {})).sleep, 2);
+    await manager.shutdown();
+});
+
+await test('maxConcurrency queues calls and reports the wait', async () => {
+    const manager = await createManager({ fake: fakeServer({ maxConcurrency: 1 }) });
+    const server = await manager.ensureServerLoaded('fake');
+
+    const started = Date.now();
+    const [slow, failing] = await Promise.allSettled([
+        server.call('sleep', { ms: 150 }),
+        server.call('missing', {})
+    ]);
+    assert.strictEqual(slow.status, 'fulfilled');
+    assert.strictEqual(failing.status, 'rejected');
+    assert.match((failing as PromiseRejectedResult).reason.message, /Unknown tool: missing \(after waiting \d+ms for fake's maxConcurrency\/rateLimit\)/);
+    assert.ok(Date.now() - started >= 150);
+
+    const waits = manager.metrics.registry.samples('codemode_queue_wait_seconds').filter((s) => s.name.endsWith('_count'));
+    assert.deepStrictEqual(waits.map((s) => [s.labels.server, s.value]), [['fake', 2]]);
+    assert.deepStrictEqual(manager.metrics.registry.samples('codemode_queued_calls').map((s) => s.value), [0]);
+    await manager.shutdown();
+});
+
+await test('Invalid rateLimit settings are ignored', async () => {
+    const manager = await createManager({ fake: fakeServer({ rateLimit: { requests: 1, burst: 'lots' } }) });
+    const server = await manager.ensureServerLoaded('fake');
+    const started = Date.now();
+    await Promise.all([1, 2, 3].map((value) => server.call('echo', { value })));
+    assert.ok(Date.now() - started < 900);
+    await manager.shutdown();
+});
+
+await test('Per-tool timeouts override the server default', async () => {
+    const manager = await createManager({ fake: fakeServer({ timeouts: { handshakeMs: 10_000, callMs: 5_000, tools: { 'sl*': 100 } } }) });
+    const server = await manager.ensureServerLoaded('fake');
+
+    await assert.rejects(server.call('sleep', { ms: 300 }), /Tool timeout: sleep \(100ms\)/);
+    assert.deepStrictEqual(unwrap(await server.call('sleep', { ms: 150 }, { timeoutMs: 1_000 })), { slept: 150 });
+    assert.deepStrictEqual(unwrap(await server.call('echo', { value: 'ok' })), { value: 'ok' });
+    await manager.shutdown();
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
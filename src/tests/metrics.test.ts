@@ -0,0 +1,80 @@
+import { strict as assert } from 'assert';
+import { AddressInfo } from 'net';
+import { MetricsRegistry, OrchestratorMetrics, startMetricsServer } from '../components/metrics.js';
+
+console.log('Running Metrics Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('Counters and histograms render in Prometheus text format', async () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter('calls_total', 'Calls');
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    calls.inc({ tool: 'echo' });
+    calls.inc({ tool: 'echo' }, 2);
+    calls.inc({ tool: 'say "hi"' }, -1);
+    latency.observe({ tool: 'echo' }, 0.05);
+    latency.observe({ tool: 'echo' }, 0.5);
+
+    assert.strictEqual(registry.render(), [
+        '# HELP calls_total Calls',
+        '# TYPE calls_total counter',
+        'calls_total{tool="echo"} 3',
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{tool="echo",le="0.1"} 1',
+        'latency_seconds_bucket{tool="echo",le="1"} 2',
+        'latency_seconds_bucket{tool="echo",le="+Inf"} 2',
+        'latency_seconds_sum{tool="echo"} 0.55',
+        'latency_seconds_count{tool="echo"} 2',
+        ''
+    ].join('\n'));
+    assert.deepStrictEqual(registry.samples('calls_*'), [{ name: 'calls_total', labels: { tool: 'echo' }, value: 3 }]);
+});
+
+await test('Server state changes update the gauge and transition counter', async () => {
+    const metrics = new OrchestratorMetrics();
+    metrics.recordServerState('fs', 'loading');
+    metrics.recordServerState('fs', 'ready');
+    metrics.recordServerState('fs', 'ready');
+
+    const states = metrics.registry.samples('codemode_server_state').map((s) => [s.labels.state, s.value]);
+    assert.deepStrictEqual(states, [['loading', 0], ['ready', 1]]);
+    const transitions = metrics.registry.samples('codemode_server_state_transitions_total').map((s) => s.value);
+    assert.deepStrictEqual(transitions, [1, 1]);
+});
+
+await test('The HTTP endpoint serves /metrics only', async () => {
+    const metrics = new OrchestratorMetrics();
+    metrics.toolCalls.inc({ server: 'fs', tool: 'read', outcome: 'ok' });
+    const server = await startMetricsServer(metrics.registry, 0);
+    try {
+        const { port } = server.address() as AddressInfo;
+        const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+        assert.strictEqual(response.status, 200);
+        assert.ok(response.headers.get('content-type')?.startsWith('text/plain; version=0.0.4'));
+        assert.ok((await response.text()).includes('codemode_tool_calls_total{server="fs",tool="read",outcome="ok"} 1'));
+        assert.strictEqual((await fetch(`http://127.0.0.1:${port}/other`)).status, 404);
+    } finally {
+        server.close();
+    }
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
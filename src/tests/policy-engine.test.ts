@@ -0,0 +1,60 @@
+import { strict as assert } from 'assert';
+import { PolicyEngine } from '../components/policy-engine.js';
+
+console.log('Running Policy Engine Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('Everything is allowed without a policy', async () => {
+    const engine = new PolicyEngine();
+    assert.strictEqual(engine.configured, false);
+    assert.strictEqual(engine.evaluate('fs', { name: 'delete_file' }).effect, 'allow');
+});
+
+await test('First matching rule wins over later rules and the default', async () => {
+    const engine = new PolicyEngine({
+        default: 'deny',
+        rules: [
+            { server: 'fs', tools: ['delete_*'], action: 'deny', reason: 'no deletes' },
+            { server: 'fs', action: 'allow' },
+            { server: 'k8s', tools: ['*apply*'], action: 'require-confirmation' }
+        ]
+    });
+    assert.deepStrictEqual(engine.evaluate('fs', { name: 'delete_file' }), { action: 'deny', effect: 'deny', reason: 'no deletes' });
+    assert.strictEqual(engine.evaluate('fs', { name: 'read_file' }).effect, 'allow');
+    assert.strictEqual(engine.evaluate('k8s', { name: 'kubectl_apply' }).effect, 'confirm');
+    assert.deepStrictEqual(engine.evaluate('k8s', { name: 'kubectl_get' }), { action: 'deny', effect: 'deny', reason: 'blocked by default policy' });
+});
+
+await test('Read-only allows only tools annotated readOnlyHint', async () => {
+    const engine = new PolicyEngine({ rules: [{ server: 'k8s', action: 'read-only' }] });
+    assert.strictEqual(engine.evaluate('k8s', { name: 'get', annotations: { readOnlyHint: true } }).effect, 'allow');
+    const decision = engine.evaluate('k8s', { name: 'apply', annotations: { destructiveHint: true } });
+    assert.strictEqual(decision.effect, 'deny');
+    assert.strictEqual(decision.reason, 'rule 1 only allows tools annotated readOnlyHint');
+});
+
+await test('Rules with unknown actions are ignored', async () => {
+    const engine = new PolicyEngine({ rules: [{ server: '*', action: 'block' as any }] });
+    assert.strictEqual(engine.describe().rules.length, 0);
+    assert.strictEqual(engine.evaluate('fs', { name: 'x' }).effect, 'allow');
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { strict as assert } from 'assert';
+import { ResultCache } from '../components/result-cache.js';
+
+console.log('Running Result Cache Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+function tempCachePath(): string {
+    return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-cache-')), 'cache.json');
+}
+
+function text(value: string) {
+    return { content: [{ type: 'text', text: value }] };
+}
+
+await test('Only opted-in tools are cached, by canonical arguments, until the TTL passes', async () => {
+    let now = 1_000;
+    const cache = new ResultCache(tempCachePath(), {
+        rules: [{ server: 'docs', tools: ['get-*'], ttlSeconds: 60 }, { tools: [], ttlSeconds: 10 } as any]
+    }, () => now);
+
+    assert.ok(cache.ruleFor('docs', 'get-library-docs'));
+    assert.strictEqual(cache.ruleFor('docs', 'write'), undefined);
+    assert.strictEqual(cache.ruleFor('other', 'get-library-docs'), undefined);
+
+    await cache.set('docs', 'get-library-docs', { id: 'react', topic: 'hooks' }, text('hooks'));
+    await cache.set('docs', 'write', {}, text('not cached'));
+    await cache.set('docs', 'get-error', {}, { ...text('failed'), isError: true });
+
+    const hit = await cache.get('docs', 'get-library-docs', { topic: 'hooks', id: 'react' });
+    assert.deepStrictEqual(hit, text('hooks'));
+    hit.content[0].text = 'mutated';
+    assert.deepStrictEqual(await cache.get('docs', 'get-library-docs', { id: 'react', topic: 'hooks' }), text('hooks'));
+    assert.strictEqual(await cache.get('docs', 'write', {}), undefined);
+    assert.strictEqual(await cache.get('docs', 'get-error', {}), undefined);
+
+    now += 60_000;
+    assert.strictEqual(await cache.get('docs', 'get-library-docs', { id: 'react', topic: 'hooks' }), undefined);
+});
+
+await test('Each tool evicts least recently used results beyond maxEntries and maxBytes', async () => {
+    const cache = new ResultCache(tempCachePath(), {
+        rules: [
+            { tools: ['lookup'], ttlSeconds: 60, maxEntries: 2 },
+            { tools: ['article'], ttlSeconds: 60, maxBytes: 100 }
+        ]
+    });
+
+    await cache.set('s', 'lookup', { q: 1 }, text('one'));
+    await cache.set('s', 'lookup', { q: 2 }, text('two'));
+    await cache.get('s', 'lookup', { q: 1 });
+    await cache.set('s', 'lookup', { q: 3 }, text('three'));
+    assert.ok(await cache.get('s', 'lookup', { q: 1 }));
+    assert.strictEqual(await cache.get('s', 'lookup', { q: 2 }), undefined);
+    assert.ok(await cache.get('s', 'lookup', { q: 3 }));
+
+    await cache.set('s', 'article', { id: 'big' }, text('x'.repeat(200)));
+    assert.strictEqual(await cache.get('s', 'article', { id: 'big' }), undefined);
+    await cache.set('s', 'article', { id: 'a' }, text('a'.repeat(30)));
+    await cache.set('s', 'article', { id: 'b' }, text('b'.repeat(30)));
+    assert.strictEqual(await cache.get('s', 'article', { id: 'a' }), undefined);
+    assert.ok(await cache.get('s', 'article', { id: 'b' }));
+});
+
+await test('Results survive a restart and clear() drops matching tools', async () => {
+    const file = tempCachePath();
+    const config = { rules: [{ tools: ['*'], ttlSeconds: 60 }] };
+    const first = new ResultCache(file, config);
+    await first.set('docs', 'lookup', { q: 1 }, text('docs'));
+    await first.set('web', 'readArticle', { url: 'x' }, text('article'));
+    await first.flush();
+
+    const second = new ResultCache(file, config);
+    assert.deepStrictEqual(await second.get('docs', 'lookup', { q: 1 }), text('docs'));
+    assert.strictEqual(await second.clear({ server: 'w*' }), 1);
+    assert.strictEqual(await second.get('web', 'readArticle', { url: 'x' }), undefined);
+    await second.flush();
+
+    const onDisk = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    assert.deepStrictEqual(onDisk.entries.map((entry: any) => entry.tool), ['lookup']);
+    assert.strictEqual(await new ResultCache(file, config).clear(), 1);
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,83 @@
+import { strict as assert } from 'assert';
+import { ArgumentValidationError, assertValidArguments, validateArguments } from '../components/schema-validator.js';
+
+console.log('Running Schema Validator Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+const schema = {
+    type: 'object',
+    properties: {
+        query: { type: 'string', minLength: 1 },
+        limit: { type: 'integer', minimum: 1, maximum: 100 },
+        mode: { type: 'string', enum: ['fast', 'thorough'] },
+        filter: {
+            type: 'object',
+            properties: { tags: { type: 'array', items: { type: 'string' } } },
+            required: ['tags'],
+            additionalProperties: false
+        }
+    },
+    required: ['query'],
+    additionalProperties: false
+};
+
+await test('Valid arguments produce no violations', async () => {
+    assert.deepStrictEqual(validateArguments(schema, { query: 'pods', limit: 10, mode: 'fast', filter: { tags: ['a'] } }), []);
+    assert.deepStrictEqual(validateArguments({ type: 'object' }, { anything: 1 }), []);
+});
+
+await test('Types, required, enums and additionalProperties are reported', async () => {
+    const violations = validateArguments(schema, { limit: 2.5, mode: 'slow', filter: { tags: [1], other: true }, typo: 1 });
+    assert.deepStrictEqual(violations, [
+        { path: '(root)', message: 'missing required property "query"' },
+        { path: 'limit', message: 'expected integer, got number' },
+        { path: 'mode', message: 'must be one of "fast", "thorough"' },
+        { path: 'filter.tags[0]', message: 'expected string, got integer' },
+        { path: 'filter.other', message: 'unknown property (expected one of tags)' },
+        { path: 'typo', message: 'unknown property (expected one of query, limit, mode, filter)' }
+    ]);
+});
+
+await test('Bounds and unions are checked', async () => {
+    assert.deepStrictEqual(validateArguments(schema, { query: '', limit: 500 }), [
+        { path: 'query', message: 'must be at least 1 characters' },
+        { path: 'limit', message: 'must be <= 100' }
+    ]);
+    const union = { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] };
+    assert.deepStrictEqual(validateArguments(union, ['a']), []);
+    assert.deepStrictEqual(validateArguments(union, 3), [{ path: '(root)', message: 'does not match any of the allowed schemas' }]);
+});
+
+await test('assertValidArguments throws a structured error', async () => {
+    assert.throws(
+        () => assertValidArguments('search', { name: 'query', inputSchema: schema }, { limit: 'ten' }),
+        (err: any) => {
+            assert.ok(err instanceof ArgumentValidationError);
+            assert.strictEqual(err.violations.length, 2);
+            assert.ok(err.message.startsWith('Invalid arguments for search.query:\n- (root): missing required property "query"\n- limit: expected integer, got string'));
+            assert.ok(err.message.includes('Expected schema (TOON):\ntype: object'), err.message);
+            return true;
+        }
+    );
+    assert.doesNotThrow(() => assertValidArguments('search', { name: 'free' }, { whatever: true }));
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
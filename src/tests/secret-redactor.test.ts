@@ -0,0 +1,55 @@
+import { strict as assert } from 'assert';
+import { REDACTED, SecretRedactor } from '../components/secret-redactor.js';
+
+console.log('Running Secret Redactor Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('Secrets are learned from env, flags and auth headers', async () => {
+    const redactor = new SecretRedactor();
+    redactor.learnFromServer({
+        name: 'context7',
+        command: 'npx',
+        args: ['-y', '@upstash/context7-mcp', '--api-key', 'ctx7-key-abcdef', '--token=inline-token-1', '--verbose'],
+        env: { PERPLEXITY_API_KEY: 'pplx-secret-value', NODE_ENV: 'production', OPAQUE: 'A1b2C3d4E5f6G7h8I9j0K' },
+        headers: { Authorization: 'Bearer header-token-xyz', Accept: 'application/json' }
+    });
+
+    const text = 'ctx7-key-abcdef inline-token-1 pplx-secret-value A1b2C3d4E5f6G7h8I9j0K header-token-xyz production @upstash/context7-mcp application/json';
+    assert.strictEqual(
+        redactor.redact(text),
+        `${REDACTED} ${REDACTED} ${REDACTED} ${REDACTED} ${REDACTED} production @upstash/context7-mcp application/json`
+    );
+});
+
+await test('Configured values and patterns are masked', async () => {
+    const redactor = new SecretRedactor({ values: ['literal-secret', 'abc'], patterns: ['ghp_[A-Za-z0-9]{10,}', '('] });
+    assert.strictEqual(redactor.redact('literal-secret ghp_0123456789abcd abc'), `${REDACTED} ${REDACTED} abc`);
+});
+
+await test('redactValue masks nested strings without mutating the input', async () => {
+    const redactor = new SecretRedactor({ values: ['hunter2-password'] });
+    const input = { content: [{ type: 'text', text: 'pw=hunter2-password' }], count: 1, ok: true };
+    const output = redactor.redactValue(input);
+    assert.deepStrictEqual(output, { content: [{ type: 'text', text: `pw=${REDACTED}` }], count: 1, ok: true });
+    assert.strictEqual(input.content[0].text, 'pw=hunter2-password');
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { strict as assert } from 'assert';
+import { BpeTokenizer, compareTokens, ESTIMATED_TOKENS, loadTokenizer, parseTiktokenRanks } from '../components/tokenizer.js';
+
+console.log('Running Tokenizer Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+// Tiny tiktoken-format vocabulary: every single byte, then a few merges in rank order
+function writeVocabulary(dir: string, name: string, merges: string[]): void {
+    const lines: string[] = [];
+    for (let byte = 0; byte < 256; byte++) {
+        lines.push(`${Buffer.from([byte]).toString('base64')} ${byte}`);
+    }
+    merges.forEach((token, index) => {
+        lines.push(`${Buffer.from(token, 'utf8').toString('base64')} ${256 + index}`);
+    });
+    fs.writeFileSync(path.join(dir, `${name}.tiktoken`), lines.join('\n') + '\n');
+}
+
+function tempDataDir(): URL {
+    return pathToFileURL(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-tokenizer-')) + path.sep);
+}
+
+await test('Rank files map base64 byte strings to ranks', async () => {
+    const ranks = parseTiktokenRanks(`${Buffer.from('hi').toString('base64')} 7\n\n${Buffer.from('é').toString('base64')} 8\n`);
+    assert.strictEqual(ranks.get('hi'), 7);
+    assert.strictEqual(ranks.get(Buffer.from('é').toString('latin1')), 8);
+});
+
+await test('BPE merges the lowest-ranked pair first', async () => {
+    const dataDir = tempDataDir();
+    // "ab" outranks "bc", so "abc" becomes ab + c rather than a + bc
+    writeVocabulary(fileURLToPath(dataDir), 'o200k_base', ['ab', 'bc', 'abcd', ' ab']);
+    const tokenizer = await loadTokenizer('o200k_base', dataDir) as BpeTokenizer;
+    assert.ok(tokenizer.exact);
+    assert.deepStrictEqual(tokenizer.encode('abc'), [256, 'c'.charCodeAt(0)]);
+    // Whole pieces are looked up directly; the pre-tokenizer keeps the leading space with the word
+    assert.deepStrictEqual(tokenizer.encode('abcd abc'), [258, 259, 'c'.charCodeAt(0)]);
+    // Multi-byte characters fall back to their UTF-8 bytes
+    assert.strictEqual(tokenizer.count('é'), 2);
+});
+
+await test('Very long pieces are merged in windows and encoded without spreading', async () => {
+    const dataDir = tempDataDir();
+    writeVocabulary(fileURLToPath(dataDir), 'o200k_base', ['ab']);
+    const tokenizer = await loadTokenizer('o200k_base', dataDir) as BpeTokenizer;
+    const started = Date.now();
+    assert.strictEqual(tokenizer.count('ab'.repeat(50_000)), 50_000);
+    assert.strictEqual(tokenizer.encode('x'.repeat(200_000)).length, 200_000);
+    assert.ok(Date.now() - started < 5000);
+});
+
+await test('Bundled vocabularies match tiktoken', async () => {
+    // Expected ids from tiktoken for the same strings
+    const o200k = await loadTokenizer('o200k_base') as BpeTokenizer;
+    assert.ok(o200k.exact);
+    assert.deepStrictEqual(o200k.encode('hello world'), [24912, 2375]);
+    assert.deepStrictEqual(o200k.encode('users[2]{id,name}:\n  1,Alice\n  2,Bob'),
+        [8206, 58, 17, 31405, 315, 52064, 92, 734, 220, 220, 16, 59196, 7321, 198, 220, 220, 17, 19853, 630]);
+    assert.deepStrictEqual(o200k.encode("Héllo 🌍 don't  stop\r\n  12345"),
+        [39, 377, 72807, 130321, 235, 4128, 220, 5666, 370, 220, 220, 7633, 2548]);
+
+    const cl100k = await loadTokenizer('cl100k_base') as BpeTokenizer;
+    assert.ok(cl100k.exact);
+    assert.deepStrictEqual(cl100k.encode('hello world'), [15339, 1917]);
+    assert.deepStrictEqual(cl100k.encode('{"users":[{"id":1,"name":"Alice"}]}'),
+        [5018, 4312, 67682, 307, 794, 16, 1359, 609, 3332, 62786, 9388, 14316]);
+    assert.deepStrictEqual(cl100k.encode("Héllo 🌍 don't  stop\r\n  12345"),
+        [39, 19010, 385, 11410, 234, 235, 1541, 956, 220, 3009, 319, 220, 220, 4513, 1774]);
+});
+
+await test('Missing vocabularies fall back to the byte estimate', async () => {
+    const tokenizer = await loadTokenizer('cl100k_base', tempDataDir());
+    assert.strictEqual(tokenizer, ESTIMATED_TOKENS);
+    assert.strictEqual(tokenizer.exact, false);
+    assert.strictEqual(tokenizer.count('12345678'), 2);
+    assert.strictEqual(await loadTokenizer('p50k_base', tempDataDir()), ESTIMATED_TOKENS);
+});
+
+await test('compareTokens reports savings in percent of JSON tokens', async () => {
+    const result = compareTokens(ESTIMATED_TOKENS, 'x'.repeat(40), 'x'.repeat(10));
+    assert.deepStrictEqual(result, { json: 10, toon: 3, savings: 70 });
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,476 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { strict as assert } from 'assert';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+    CallToolResultSchema,
+    ProgressNotificationSchema,
+    PromptListChangedNotificationSchema,
+    ResourceListChangedNotificationSchema,
+    ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { ConfigManager } from '../components/config-manager.js';
+import { MCPServerManager } from '../components/mcp-server-manager.js';
+import { PathNormalizer } from '../components/path-normalizer.js';
+import { CodeExecutor } from '../components/code-executor.js';
+import { WorkflowManager } from '../components/workflow-manager.js';
+import { ToolRegistry } from '../components/tool-registry.js';
+import { TOONEncoder } from '../toon-encoder.js';
+import { z } from 'zod';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-mcp-server.js');
+
+console.log('Running Tool Registry Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+async function createOrchestrator(extraConfig: Record<string, any> = {}) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-registry-'));
+    const configPath = path.join(dir, 'mcp.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+        mcpServers: { fake: { command: process.execPath, args: [fixturePath], lazy: true } },
+        ...extraConfig
+    }));
+    const configManager = new ConfigManager(configPath);
+    await configManager.loadConfig();
+    const pathNormalizer = new PathNormalizer(dir);
+    const serverManager = new MCPServerManager(configManager, pathNormalizer);
+    await serverManager.loadServers();
+    const codeExecutor = new CodeExecutor(serverManager, pathNormalizer);
+    const workflowManager = new WorkflowManager(configManager, serverManager, pathNormalizer);
+    const server = new Server({ name: 'test', version: '0' }, { capabilities: { tools: {}, resources: {}, prompts: {} } });
+    const registry = new ToolRegistry(server, configManager, serverManager, codeExecutor, workflowManager, pathNormalizer);
+    return { server, serverManager, codeExecutor, registry };
+}
+
+function resultText(result: any): string {
+    return result.content[0].text;
+}
+
+await test('Downstream resources are proxied with namespaced URIs', async () => {
+    const { serverManager, registry } = await createOrchestrator();
+    assert.deepStrictEqual(registry.listResources(), []);
+    await serverManager.ensureServerLoaded('fake');
+    const listed = registry.listResources();
+    assert.deepStrictEqual(listed.map((r) => r.uri), ['code-mode-toon://fake/memory://config', 'code-mode-toon://fake/memory://notes']);
+    assert.deepStrictEqual(registry.listResourceTemplates().map((t) => t.uriTemplate), ['code-mode-toon://fake/memory://{key}']);
+
+    const json = await registry.readResource('code-mode-toon://fake/memory://config');
+    assert.strictEqual(json.contents[0].uri, 'code-mode-toon://fake/memory://config');
+    assert.deepStrictEqual(TOONEncoder.decode(json.contents[0].text), { users: [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }] });
+
+    const text = await registry.readResource('code-mode-toon://fake/memory://notes');
+    assert.strictEqual(text.contents[0].text, 'remember the milk');
+
+    await assert.rejects(registry.readResource('memory://config'), /Unknown resource URI/);
+    await assert.rejects(registry.readResource('code-mode-toon://fake/memory://missing'), /Resource not found/);
+    await serverManager.shutdown();
+});
+
+await test('Sandbox resources API reads downstream resources', async () => {
+    const { serverManager, codeExecutor, registry } = await createOrchestrator();
+    const result = await codeExecutor.executeCode(`
+        const listing = await resources['fake'].list();
+        const config = await resources['fake'].read('memory://config');
+        return { count: listing.resources.length, names: config.users.map(u => u.name) };
+    `, registry);
+    assert.ok(!result.isError, resultText(result));
+    assert.ok(resultText(result).includes('count: 2'));
+    assert.ok(resultText(result).includes('names[2]: Alice,Bob'));
+    await serverManager.shutdown();
+});
+
+await test('Downstream prompts are namespaced and start lazy servers on get', async () => {
+    const { serverManager, registry } = await createOrchestrator();
+    assert.deepStrictEqual(registry.listPrompts(), []);
+    const prompt = await registry.getPrompt('fake/summarize', { topic: 'TOON' });
+    assert.strictEqual(prompt.messages[0].content.text, 'Summarize TOON');
+
+    const listed = registry.listPrompts();
+    assert.strictEqual(listed.length, 1);
+    assert.strictEqual(listed[0].name, 'fake/summarize');
+    assert.strictEqual(listed[0].arguments[0].name, 'topic');
+
+    await assert.rejects(registry.getPrompt('summarize'), /namespaced/);
+    await assert.rejects(registry.getPrompt('fake/missing'), /not found on server "fake"/);
+    await serverManager.shutdown();
+});
+
+await test('Tool APIs can be rendered as TypeScript declarations', async () => {
+    const { serverManager, registry } = await createOrchestrator();
+    const api = resultText(await registry.getToolAPI('fake', 'typescript'));
+    assert.ok(api.includes('type FakeSleepArgs = {\n    ms: number;\n};'), api);
+    assert.ok(api.includes('    /** Resolves after ms milliseconds */\n    sleep(args: FakeSleepArgs, options?: { timeoutMs?: number }): Promise<any>;'), api);
+    assert.ok(api.includes('echo(args?: FakeEchoArgs, options?: { timeoutMs?: number }): Promise<any>;'), api);
+
+    const search = resultText(await registry.searchTools('sleep', 'typescript'));
+    assert.ok(search.includes('interface FakeTools'), search);
+    assert.ok(!search.includes('FakeEchoArgs'), search);
+    await serverManager.shutdown();
+});
+
+await test('Cancelling execute_code aborts pending downstream calls', async () => {
+    const { serverManager, codeExecutor, registry } = await createOrchestrator();
+    const loaded = await serverManager.ensureServerLoaded('fake');
+    // Warm up the TypeScript compiler so the abort lands on the downstream call
+    await codeExecutor.executeCode('return 1;', registry);
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+    const result = await codeExecutor.executeCode(`
+        await servers['fake'].sleep({ ms: 5000 });
+        return 'finished';
+    `, registry, { signal: controller.signal });
+    assert.ok(result.isError);
+    assert.ok(resultText(result).includes('cancelled'), resultText(result));
+    assert.ok(Date.now() - started < 4000);
+
+    const ids = JSON.parse((await loaded.call('cancelled_ids', {})).content[0].text);
+    assert.strictEqual(ids.length, 1);
+    await serverManager.shutdown();
+});
+
+await test('execute_code reports script and relayed progress', async () => {
+    const { server, serverManager, registry } = await createOrchestrator();
+    registry.setupHandlers();
+
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const updates: any[] = [];
+    client.setNotificationHandler(ProgressNotificationSchema, (notification) => { updates.push(notification.params); });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const code = `
+        progress(1, 2, 'calling fake');
+        await servers['fake'].steps({ count: 2 });
+        progress(1, 2, 'duplicate is dropped');
+        progress(2, 2, 'done');
+        return 'ok';
+    `;
+    const result = await client.request({
+        method: 'tools/call',
+        params: { name: 'execute_code', arguments: { code }, _meta: { progressToken: 'tok' } }
+    }, CallToolResultSchema);
+    assert.ok(!result.isError, JSON.stringify(result));
+    assert.ok(updates.every((u) => u.progressToken === 'tok'));
+    assert.deepStrictEqual(updates.map((u) => u.message), [
+        'calling fake', '[fake.steps] step 1', '[fake.steps] step 2', 'done'
+    ]);
+    assert.deepStrictEqual(updates.map((u) => u.progress), [1, 2, 3, 4]);
+    assert.deepStrictEqual(updates.map((u) => u.total), [2, undefined, undefined, undefined]);
+
+    // Without a token nothing is sent
+    updates.length = 0;
+    await client.request({ method: 'tools/call', params: { name: 'execute_code', arguments: { code } } }, CallToolResultSchema);
+    assert.strictEqual(updates.length, 0);
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Policy denials are enforced and visible to the client', async () => {
+    const { server, serverManager, registry } = await createOrchestrator({
+        policy: {
+            rules: [
+                { server: 'fake', tools: ['crash', 'add_*'], action: 'deny', reason: 'destructive' },
+                { server: 'fake', tools: ['notify'], action: 'require-confirmation' },
+                { server: 'f*', action: 'read-only' }
+            ]
+        }
+    });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const loaded = await serverManager.ensureServerLoaded('fake');
+    await assert.rejects(loaded.call('crash', {}), /denied by policy \(deny\): destructive/);
+    await assert.rejects(loaded.call('notify', {}), /require-confirmation.*the client does not support elicitation/);
+    await assert.rejects(loaded.call('cancelled_ids', {}), /only allows tools annotated readOnlyHint/);
+    assert.ok(resultText(await loaded.call('echo', { value: 'ok' })).includes('ok'));
+
+    const run = await client.callTool({ name: 'execute_code', arguments: { code: `await servers['fake'].crash({});` } });
+    assert.ok(run.isError);
+    assert.ok((run.content as any)[0].text.includes('denied by policy'), (run.content as any)[0].text);
+    assert.ok((run.content as any)[0].text.includes('RECOVERY HINTS'), (run.content as any)[0].text);
+    assert.ok(!('denial' in run), JSON.stringify(run));
+    const thrown = await client.callTool({ name: 'execute_code', arguments: { code: `throw new Error('plain failure');` } });
+    assert.ok(thrown.isError);
+    assert.ok(!(thrown.content as any)[0].text.includes('RECOVERY HINTS'), (thrown.content as any)[0].text);
+    // Only an actual denial gets the policy hints, not an error that mentions one
+    const mentioned = await client.callTool({ name: 'execute_code', arguments: { code: `throw new Error('not denied by policy, just broken');` } });
+    assert.ok(!(mentioned.content as any)[0].text.includes('RECOVERY HINTS'), (mentioned.content as any)[0].text);
+    const caught = await client.callTool({ name: 'execute_code', arguments: { code: `
+        try { await servers['fake'].crash({}); } catch { }
+        throw new Error('unrelated');
+    ` } });
+    assert.ok(!(caught.content as any)[0].text.includes('RECOVERY HINTS'), (caught.content as any)[0].text);
+
+    const servers = resultText(await client.callTool({ name: 'list_servers', arguments: {} }));
+    const listed = TOONEncoder.decode(servers) as any;
+    assert.strictEqual(listed.policy.default, 'allow');
+    assert.deepStrictEqual(listed.policy.rules[0], { server: 'fake', tools: 'crash add_*', action: 'deny' });
+
+    const api = TOONEncoder.decode(resultText(await registry.getToolAPI('fake'))) as any;
+    const policies = Object.fromEntries(api.tools.map((t: any) => [t.name, t.policy]));
+    assert.strictEqual(policies.crash, 'deny');
+    assert.strictEqual(policies.notify, 'require-confirmation');
+    assert.strictEqual(policies.echo, 'read-only');
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Confirmation-required calls are approved or declined via elicitation', async () => {
+    const { server, serverManager, registry } = await createOrchestrator({
+        policy: { rules: [{ server: 'fake', tools: ['echo'], action: 'require-confirmation', reason: 'echo needs sign-off' }] }
+    });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: { elicitation: {} } });
+    const prompts: string[] = [];
+    const answers = [{ action: 'accept', content: { confirm: true } }, { action: 'decline' }];
+    client.setRequestHandler(
+        z.object({ method: z.literal('elicitation/create'), params: z.object({ message: z.string() }).passthrough() }),
+        async (request) => {
+            prompts.push(request.params.message);
+            return answers.shift() as any;
+        }
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const code = `
+        const first = await servers['fake'].echo({ value: 'approved' });
+        let declined = '';
+        try { await servers['fake'].echo({ value: 'second' }); } catch (e) { declined = e.message; }
+        return { first, declined };
+    `;
+    const result = await client.callTool({ name: 'execute_code', arguments: { code } });
+    assert.ok(!result.isError, resultText(result));
+    const text = resultText(result);
+    assert.ok(text.includes('approved'), text);
+    assert.ok(text.includes('denied by policy (require-confirmation): echo needs sign-off, and the user declined'), text);
+
+    assert.strictEqual(prompts.length, 2);
+    assert.ok(prompts[0].startsWith('Allow fake.echo?'), prompts[0]);
+    assert.ok(prompts[0].includes('Policy: echo needs sign-off'), prompts[0]);
+    assert.ok(prompts[0].includes(TOONEncoder.encode({ value: 'approved' })), prompts[0]);
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Proxied calls are written to the audit log and can be queried', async () => {
+    const auditPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-audit-')), 'audit.jsonl');
+    const { server, serverManager, registry } = await createOrchestrator({
+        audit: { path: auditPath },
+        policy: { rules: [{ server: 'fake', tools: ['crash'], action: 'deny' }] }
+    });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const code = `
+        await servers['fake'].echo({ value: 'audited' });
+        try { await servers['fake'].crash({}); } catch { }
+        return 'done';
+    `;
+    const run = await client.callTool({ name: 'execute_code', arguments: { code, sessionId: 'audit' } });
+    assert.ok(!run.isError, resultText(run));
+
+    const rows = TOONEncoder.decode(resultText(await client.callTool({ name: 'query_audit_log', arguments: { server: 'fake' } }))) as any[];
+    assert.deepStrictEqual(rows.map((row) => [row.tool, row.outcome]), [['echo', 'ok'], ['crash', 'denied']]);
+    assert.strictEqual(rows[0].origin, 'execute_code');
+    assert.strictEqual(rows[0].sessionId, 'audit');
+    assert.ok(rows[0].jsonBytes > 0 && rows[0].toonBytes > 0, JSON.stringify(rows[0]));
+    assert.strictEqual(rows[0].args, undefined);
+
+    const denied = TOONEncoder.decode(resultText(await client.callTool({ name: 'query_audit_log', arguments: { outcome: 'denied' } }))) as any[];
+    assert.deepStrictEqual(denied.map((row) => row.tool), ['crash']);
+    assert.strictEqual(fs.readFileSync(auditPath, 'utf-8').trim().split('\n').length, 2);
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Secrets from server config are redacted from results, errors and the audit log', async () => {
+    const secret = 'sk-live-0123456789';
+    const auditPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-audit-')), 'audit.jsonl');
+    const { server, serverManager, registry } = await createOrchestrator({
+        mcpServers: { fake: { command: process.execPath, args: [fixturePath, '--api-key', secret], lazy: true } },
+        audit: { path: auditPath, logArguments: true }
+    });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const ok = await client.callTool({ name: 'execute_code', arguments: { code: `console.log('${secret}'); return await servers['fake'].echo({ value: '${secret}' });` } });
+    assert.ok(!resultText(ok).includes(secret), resultText(ok));
+    assert.ok(resultText(ok).includes('[REDACTED]'), resultText(ok));
+
+    const failedRun = await client.callTool({ name: 'execute_code', arguments: { code: `throw new Error('bad key ${secret}');` } });
+    assert.ok(failedRun.isError);
+    assert.ok(resultText(failedRun).includes('bad key [REDACTED]'), resultText(failedRun));
+
+    await serverManager.auditLog!.flush();
+    const audit = fs.readFileSync(auditPath, 'utf-8');
+    assert.ok(!audit.includes(secret), audit);
+    assert.ok(audit.includes('[REDACTED]'), audit);
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Tool calls, runs and server states are reported by get_metrics', async () => {
+    const { server, serverManager, registry } = await createOrchestrator();
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const run = await client.callTool({ name: 'execute_code', arguments: { code: `return await servers['fake'].echo({ value: 'metrics' });` } });
+    assert.ok(!run.isError, resultText(run));
+
+    const rows = TOONEncoder.decode(resultText(await client.callTool({ name: 'get_metrics', arguments: {} }))) as any[];
+    const value = (name: string, labels: string) => rows.find((row) => row.name === name && row.labels === labels)?.value;
+    assert.strictEqual(value('codemode_tool_calls_total', 'server=fake,tool=echo,outcome=ok'), 1);
+    assert.strictEqual(value('codemode_server_state', 'server=fake,state=ready'), 1);
+    assert.strictEqual(value('codemode_execute_code_duration_seconds_count', 'outcome=ok'), 1);
+    assert.strictEqual(value('codemode_server_load_seconds_count', 'server=fake,outcome=ok'), 1);
+
+    const text = resultText(await client.callTool({ name: 'get_metrics', arguments: { format: 'prometheus', filter: 'codemode_tool_*' } }));
+    assert.ok(text.includes('# TYPE codemode_tool_call_duration_seconds histogram'), text);
+    assert.ok(!text.includes('codemode_workflow'), text);
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('execute_code runs are traced into downstream servers', async () => {
+    const tracePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-trace-')), 'traces.jsonl');
+    const { server, serverManager, registry } = await createOrchestrator({ tracing: { file: tracePath } });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const incoming = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const run = await client.callTool({
+        name: 'execute_code',
+        arguments: { code: `return await servers['fake'].trace_context({});` },
+        _meta: { traceparent: incoming }
+    });
+    assert.ok(!run.isError, resultText(run));
+    await serverManager.tracer.flush();
+
+    const spans = fs.readFileSync(tracePath, 'utf-8').trim().split('\n')
+        .flatMap((line) => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans);
+    const byName = (name: string) => spans.find((span: any) => span.name === name);
+    const root = byName('tools/call execute_code');
+    const load = byName('load fake');
+    const call = byName('tools/call fake.trace_context');
+    assert.ok(root && load && call, spans.map((span: any) => span.name).join(', '));
+    assert.strictEqual(root.traceId, '4bf92f3577b34da6a3ce929d0e0e4736');
+    assert.strictEqual(root.parentSpanId, '00f067aa0ba902b7');
+    assert.strictEqual(load.parentSpanId, root.spanId);
+    assert.strictEqual(call.parentSpanId, root.spanId);
+    assert.ok(call.attributes.some((a: any) => a.key === 'mcp.response.bytes' && Number(a.value.intValue) > 0), JSON.stringify(call.attributes));
+
+    // The downstream server received the client span's context
+    assert.ok(resultText(run).includes(`00-${root.traceId}-${call.spanId}-01`), resultText(run));
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+await test('Opted-in tool results are cached until clear_cache', async () => {
+    const cachePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-cache-')), 'cache.json');
+    const { server, serverManager, registry } = await createOrchestrator({
+        cache: { path: cachePath, rules: [{ server: 'fake', tools: ['echo'], ttlSeconds: 60 }] }
+    });
+    registry.setupHandlers();
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const code = `
+        const first = await servers['fake'].echo({ value: 'docs' });
+        const second = await servers['fake'].echo({ value: 'docs' });
+        await servers['fake'].trace_context({});
+        return [first, second];
+    `;
+    const run = await client.callTool({ name: 'execute_code', arguments: { code } });
+    assert.ok(resultText(run).includes('Operations: 3 (1 served from cache)'), resultText(run));
+
+    const cleared = await client.callTool({ name: 'clear_cache', arguments: { tool: 'ech*' } });
+    assert.strictEqual(resultText(cleared), 'Cleared 1 cached result(s)');
+    const again = await client.callTool({ name: 'execute_code', arguments: { code: `return await servers['fake'].echo({ value: 'docs' });` } });
+    assert.ok(resultText(again).includes('Operations: 1\n'), resultText(again));
+
+    await client.close();
+    await serverManager.shutdown();
+    assert.strictEqual(JSON.parse(fs.readFileSync(cachePath, 'utf-8')).entries.length, 1);
+});
+
+await test('Tool list changes propagate to the client', async () => {
+    const { server, serverManager, registry } = await createOrchestrator();
+    registry.setupHandlers();
+
+    const client = new Client({ name: 'client', version: '0' }, { capabilities: {} });
+    let notifications = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => { notifications++; });
+    let resourceNotifications = 0;
+    let promptNotifications = 0;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { resourceNotifications++; });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => { promptNotifications++; });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const waitForNotification = async (count: number) => {
+        for (let i = 0; i < 50 && notifications < count; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        assert.strictEqual(notifications, count);
+    };
+
+    const loaded = await serverManager.ensureServerLoaded('fake');
+    await waitForNotification(1);
+    // Lazy servers are not listed until they load, so their load is announced too
+    assert.strictEqual(resourceNotifications, 1);
+    assert.strictEqual(promptNotifications, 1);
+    assert.strictEqual((await client.listPrompts()).prompts[0].name, 'fake/summarize');
+    const before = await client.listTools();
+    assert.ok(before.tools[0].description!.includes('AVAILABLE SERVERS: fake'));
+
+    await loaded.call('add_tool', { name: 'fresh_tool' });
+    await waitForNotification(2);
+    assert.ok(loaded.tools.some((t) => t.name === 'fresh_tool'));
+
+    await client.close();
+    await serverManager.shutdown();
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -0,0 +1,94 @@
+import { strict as assert } from 'assert';
+import { generateSandboxDeclarations, schemaToTypeScript } from '../components/tool-typings.js';
+
+console.log('Running Tool Typings Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('Primitives, enums and arrays', async () => {
+    assert.strictEqual(schemaToTypeScript({ type: 'string' }), 'string');
+    assert.strictEqual(schemaToTypeScript({ type: 'integer' }), 'number');
+    assert.strictEqual(schemaToTypeScript({ type: 'string', enum: ['a', 'b'] }), '"a" | "b"');
+    assert.strictEqual(schemaToTypeScript({ type: 'array', items: { type: 'string', enum: ['x', 'y'] } }), '("x" | "y")[]');
+    assert.strictEqual(schemaToTypeScript({ type: ['string', 'null'] }), 'string | null');
+    assert.strictEqual(schemaToTypeScript({ type: 'array', items: [{ type: 'string' }, { type: 'number' }] }), '[string, number]');
+    assert.strictEqual(schemaToTypeScript({}), 'unknown');
+});
+
+await test('Nested objects honour required flags and descriptions', async () => {
+    const type = schemaToTypeScript({
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'Search text' },
+            'page-size': { type: 'number' },
+            filter: {
+                type: 'object',
+                properties: { tags: { type: 'array', items: { type: 'string' } } },
+                required: ['tags']
+            }
+        },
+        required: ['query']
+    });
+    assert.strictEqual(type, [
+        '{',
+        '    /** Search text */',
+        '    query: string;',
+        '    "page-size"?: number;',
+        '    filter?: {',
+        '        tags: string[];',
+        '    };',
+        '}'
+    ].join('\n'));
+});
+
+await test('Open objects get an index signature', async () => {
+    assert.strictEqual(schemaToTypeScript({ type: 'object' }), 'Record<string, unknown>');
+    assert.strictEqual(
+        schemaToTypeScript({ type: 'object', properties: { a: { type: 'string' } }, additionalProperties: { type: 'number' } }),
+        '{\n    a?: string;\n    [key: string]: number;\n}'
+    );
+    assert.strictEqual(schemaToTypeScript({ anyOf: [{ type: 'string' }, { type: 'number' }] }), 'string | number');
+});
+
+await test('Sandbox declarations type loaded servers and fall back to any', async () => {
+    const declarations = generateSandboxDeclarations([
+        { name: 'my-server', tools: [{ name: 'get_item', description: 'Fetch one', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } }] }
+    ]);
+    assert.ok(declarations.includes('type MyServerGetItemArgs = {\n    id: string;\n};'), declarations);
+    assert.ok(declarations.includes('interface MyServerTools {\n    /** Fetch one */\n    get_item(args: MyServerGetItemArgs, options?: { timeoutMs?: number }): Promise<any>;\n}'), declarations);
+    assert.ok(declarations.includes('    "my-server": MyServerTools;\n    [server: string]: any;'), declarations);
+});
+
+await test('Names that PascalCase alike get distinct type names', async () => {
+    const tool = (name: string) => ({ name, inputSchema: { type: 'object', properties: {} } });
+    const declarations = generateSandboxDeclarations([
+        { name: 'a-b', tools: [tool('c')] },
+        { name: 'a', tools: [tool('b-c'), tool('b_c')] },
+        { name: 'a_b', tools: [] }
+    ]);
+    for (const name of ['ABCArgs', 'ABC2Args', 'ABC3Args', 'ABTools', 'ATools', 'AB2Tools']) {
+        assert.strictEqual(declarations.match(new RegExp(`(type|interface) ${name}\\b`, 'g'))?.length, 1, `${name}:\n${declarations}`);
+    }
+    assert.ok(declarations.includes('    c(args?: ABCArgs, options?: { timeoutMs?: number }): Promise<any>;'), declarations);
+    assert.ok(declarations.includes('    "b-c"(args?: ABC2Args, options?: { timeoutMs?: number }): Promise<any>;'), declarations);
+    assert.ok(declarations.includes('    "a_b": AB2Tools;'), declarations);
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
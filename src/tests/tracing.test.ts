@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { strict as assert } from 'assert';
+import { OtlpJsonExporter, parseTraceparent, Tracer, withTraceContext } from '../components/tracing.js';
+import { SecretRedactor } from '../components/secret-redactor.js';
+
+console.log('Running Tracing Tests...\n');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`PASS: ${name}`);
+        passed++;
+    } catch (error) {
+        console.log(`FAIL: ${name}`);
+        console.log(`   Error: ${error}`);
+        failed++;
+    }
+}
+
+await test('traceparent is parsed, propagated in _meta and skipped when tracing is off', async () => {
+    const parent = parseTraceparent('00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-01');
+    assert.deepStrictEqual(parent, { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' });
+    assert.strictEqual(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01'), undefined);
+    assert.strictEqual(parseTraceparent('garbage'), undefined);
+    assert.strictEqual(parseTraceparent(undefined), undefined);
+
+    const span = new Tracer(new OtlpJsonExporter({})).startSpan('child', { parent });
+    assert.strictEqual(span.traceId, parent!.traceId);
+    assert.strictEqual(span.parentSpanId, parent!.spanId);
+    const params = withTraceContext({ name: 'echo', _meta: { progressToken: 1 } }, span);
+    assert.deepStrictEqual(params._meta, { progressToken: 1, traceparent: `00-${parent!.traceId}-${span.spanId}-01` });
+
+    const noop = new Tracer().startSpan('off', { parent });
+    assert.strictEqual(noop.recording, false);
+    assert.deepStrictEqual(withTraceContext({ name: 'echo' }, noop), { name: 'echo' });
+});
+
+await test('Ended spans are written to the trace file as OTLP/JSON', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cmt-trace-')), 'nested', 'traces.jsonl');
+    const tracer = new Tracer(new OtlpJsonExporter({ file, serviceName: 'test-service' }, new SecretRedactor({ values: ['hunter22'] })));
+
+    await tracer.withSpan('tools/call execute_code', { kind: 'server' }, async (root) => {
+        const call = tracer.startSpan('tools/call fake.echo', { kind: 'client', parent: root, attributes: { 'mcp.tool.name': 'echo', 'mcp.response.bytes': 42, skipped: undefined } });
+        call.setError(new Error('bad password hunter22'));
+        call.end();
+        call.end();
+    });
+    await tracer.flush();
+
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n');
+    assert.strictEqual(lines.length, 1);
+    const request = JSON.parse(lines[0]);
+    const resource = request.resourceSpans[0];
+    assert.deepStrictEqual(resource.resource.attributes, [{ key: 'service.name', value: { stringValue: 'test-service' } }]);
+    const [call, root] = resource.scopeSpans[0].spans;
+    assert.strictEqual(root.kind, 2);
+    assert.strictEqual(root.parentSpanId, undefined);
+    assert.deepStrictEqual(root.status, { code: 1 });
+    assert.strictEqual(call.kind, 3);
+    assert.strictEqual(call.traceId, root.traceId);
+    assert.strictEqual(call.parentSpanId, root.spanId);
+    assert.deepStrictEqual(call.attributes, [
+        { key: 'mcp.tool.name', value: { stringValue: 'echo' } },
+        { key: 'mcp.response.bytes', value: { intValue: '42' } }
+    ]);
+    assert.deepStrictEqual(call.status, { code: 2, message: 'bad password [REDACTED]' });
+    assert.ok(BigInt(call.endTimeUnixNano) >= BigInt(call.startTimeUnixNano));
+});
+
+await test('Spans are POSTed to a collector endpoint with configured headers', async () => {
+    const received: Array<{ headers: any; body: any }> = [];
+    const collector = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            received.push({ headers: req.headers, body: JSON.parse(body) });
+            res.writeHead(200, { 'content-type': 'application/json' }).end('{}');
+        });
+    });
+    await new Promise<void>((resolve) => collector.listen(0, '127.0.0.1', resolve));
+    try {
+        const { port } = collector.address() as AddressInfo;
+        const tracer = new Tracer(new OtlpJsonExporter({ endpoint: `http://127.0.0.1:${port}/v1/traces`, headers: { 'x-api-key': 'abc' } }));
+        tracer.startSpan('load fake').end();
+        await tracer.flush();
+
+        assert.strictEqual(received.length, 1);
+        assert.strictEqual(received[0].headers['x-api-key'], 'abc');
+        assert.strictEqual(received[0].headers['content-type'], 'application/json');
+        assert.strictEqual(received[0].body.resourceSpans[0].scopeSpans[0].spans[0].name, 'load fake');
+    } finally {
+        collector.close();
+    }
+});
+
+console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+
+if (failed > 0) {
+    process.exit(1);
+}
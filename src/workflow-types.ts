@@ -15,4 +15,6 @@ export interface WorkflowDefinition {
 export interface WorkflowContext {
     servers: Record<string, any>;  // Access to lazy-loaded MCP servers
     encode: (data: any) => string; // TOON encoder
+    signal?: AbortSignal;          // Aborted when the client cancels the run
+    progress: (current: number, total?: number, message?: string) => void; // notifications/progress to the client
 }